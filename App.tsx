@@ -1,18 +1,59 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import PostSovietTrainView from './components/PostSovietTrainView';
-
-export type TimeOfDay = 'day' | 'night';
-export type Weather = 'clear' | 'cloudy' | 'rain' | 'snow';
+import { createRng, getSessionSeed, seededInt } from './utils/random';
+import { TIME_SCALE, formatClock, getDayPeriod, getHoursToNextCycleStop } from './utils/dayCycle';
+import { RouteProgress, buildTimetable, generateRoute, realSecondsToSimHours } from './utils/route';
+import { BIOMES, getBiomeForSector } from './utils/biomes';
+import { WeatherPlan, advanceWeather, getInitialWeather, getSeason, planWeather } from './utils/weatherModel';
+import { DEFAULT_POST_FX, POST_FX_PASSES, PostFxPass, PostFxSettings } from './utils/postFx';
+import { SHADOW_QUALITIES, SHADOW_TIERS, ShadowQuality } from './utils/shadows';
+import { PerformanceReport, QUALITY_PRESETS, QUALITY_SETTINGS, QualityPreset, TARGET_FPS_OPTIONS } from './utils/quality';
+import { CAMERA_VIEWS, CameraView } from './utils/cameraViews';
+import { loadTripLog, saveTripLog } from './utils/tripLog';
+import { BRAKE_VALVE_POSITIONS, BrakeValve, CONTROLLER_NOTCHES, DriverStatus } from './utils/driverControls';
+
+// Hour on the continuous 24h clock (fractional, 0 <= h < 24)
+export type TimeOfDay = number;
+export type Weather = 'clear' | 'cloudy' | 'fog' | 'rain' | 'thunderstorm' | 'sleet' | 'snow' | 'blizzard';
+
+const WEATHER_STATES: Weather[] = ['clear', 'cloudy', 'fog', 'rain', 'thunderstorm', 'sleet', 'snow', 'blizzard'];
 
 const App: React.FC = () => {
   const [isOverlayVisible, setIsOverlayVisible] = useState(true);
   const [isAudioEnabled, setIsAudioEnabled] = useState(true);
   const [isAutoMode, setIsAutoMode] = useState(true);
+
+  // Screen effects (CRT post-processing) and screenshot requests
+  const [postFx, setPostFx] = useState<PostFxSettings>(DEFAULT_POST_FX);
+  const [isFxPanelOpen, setIsFxPanelOpen] = useState(false);
+  const [captureSignal, setCaptureSignal] = useState(0);
+
+  // Render quality: preset, shadow tier (set by the preset, adjustable on its own)
+  // and the optional dynamic resolution that holds a target frame rate
+  const [quality, setQuality] = useState<QualityPreset>('high');
+  const [shadowQuality, setShadowQuality] = useState<ShadowQuality>(QUALITY_SETTINGS.high.shadows);
+  const [isAutoResolution, setIsAutoResolution] = useState(false);
+  const [targetFps, setTargetFps] = useState(TARGET_FPS_OPTIONS[1]);
+  const [perfReport, setPerfReport] = useState<PerformanceReport | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [cameraView, setCameraView] = useState<CameraView>('cab');
+
+  // Driver mode: the user works the controller and brake valve, watched by the safety device
+  const [isDriverMode, setIsDriverMode] = useState(false);
+  const [controllerNotch, setControllerNotch] = useState(0);
+  const [brakeValve, setBrakeValve] = useState<BrakeValve>('run');
+  const [vigilanceSignal, setVigilanceSignal] = useState(0);
+  const [driverStatus, setDriverStatus] = useState<DriverStatus | null>(null);
+
+  // Session seed (?seed=REYS-417) - drives every procedural roll below and in the 3D view
+  const [seed] = useState(() => getSessionSeed());
   
   // Environment State
-  const [timeOfDay, setTimeOfDay] = useState<TimeOfDay>('night');
-  const [weather, setWeather] = useState<Weather>('clear');
+  // simHours keeps counting past 24 so midnight crossings can be detected
+  const [departureHours] = useState(() => createRng(`${seed}:clock`)() * 24);
+  const [simHours, setSimHours] = useState(departureHours);
+  const timeOfDay: TimeOfDay = simHours % 24;
 
   // Radio State
   const [isRadioOn, setIsRadioOn] = useState(false);
@@ -20,69 +61,168 @@ const App: React.FC = () => {
   const [radioVol, setRadioVol] = useState(0.5);
 
   // Trip Data (Generated "Robot" Data)
-  const [dayCount, setDayCount] = useState(() => Math.floor(Math.random() * 200) + 14);
-  const [sector, setSector] = useState(() => Math.floor(Math.random() * 20) + 1);
-  const [flightId] = useState(() => Math.floor(Math.random() * 899) + 100);
+  const [dayCount, setDayCount] = useState(() => seededInt(`${seed}:day`, 14, 213));
+  const [sector, setSector] = useState(() => seededInt(`${seed}:sector`, 1, 20));
+  const [flightId] = useState(() => seededInt(`${seed}:flight`, 100, 998));
+  // Odometer carried over from earlier sessions on this seed
+  const odometerBaseKm = useMemo(() => loadTripLog(seed).odometerKm, [seed]);
+
+  // Weather follows a seasonal Markov chain; OPER_DEN doubles as the day of the year
+  const [weather, setWeather] = useState<Weather>(() => getInitialWeather(seed, dayCount));
+  const [weatherPlan, setWeatherPlan] = useState<WeatherPlan>(() => planWeather(seed, weather, simHours, dayCount, 0));
+  const season = getSeason(dayCount);
+
+  // Clock: advances TIME_SCALE simulated seconds every real second
+  useEffect(() => {
+    const intervalId = setInterval(() => {
+      setSimHours(prev => prev + TIME_SCALE / 3600);
+    }, 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  // Route & Timetable
+  const route = useMemo(() => generateRoute(seed), [seed]);
+  const timetable = useMemo(() => buildTimetable(route, departureHours), [route, departureHours]);
+  const [progress, setProgress] = useState<RouteProgress | null>(null);
+  const [actualArrivals, setActualArrivals] = useState<Record<number, number>>({});
+
+  // Stamp the clock when the train comes to rest at a platform
+  const arrivedIndex = progress ? progress.arrivedIndex : -1;
+  useEffect(() => {
+    if (arrivedIndex < 0) return;
+    setActualArrivals(prev => (prev[arrivedIndex] !== undefined ? prev : { ...prev, [arrivedIndex]: simHours }));
+    // Big stations mark the boundary between line sectors
+    if (route.stations[arrivedIndex].kind === 'station') {
+      setSector(prev => prev + 1);
+    }
+  }, [arrivedIndex]);
+
+  // The odometer is saved every 100 m
+  const odometerKm = odometerBaseKm + (progress?.tripKm ?? 0);
+  const odometerTenths = Math.floor(odometerKm * 10);
+  useEffect(() => {
+    if (progress) saveTripLog(seed, { odometerKm });
+  }, [seed, odometerTenths]);
+
+  // Each sector has its own landscape
+  const biome = useMemo(() => getBiomeForSector(seed, sector), [seed, sector]);
 
-  // Track previous time to increment Day on Night -> Day transition
-  const prevTimeRef = useRef<TimeOfDay>(timeOfDay);
+  // Track previous simulated day to increment OPER_DEN at midnight
+  const simDay = Math.floor(simHours / 24);
+  const prevSimDayRef = useRef(simDay);
 
   useEffect(() => {
-    // Detect Night -> Day transition
-    if (prevTimeRef.current === 'night' && timeOfDay === 'day') {
+    if (simDay > prevSimDayRef.current) {
       setDayCount(prev => prev + 1);
-      // Small chance to change sector on new day
-      if (Math.random() > 0.8) {
+      // Small chance to change sector on new day (rolled per day so replays match)
+      if (createRng(`${seed}:sector:${dayCount + 1}`)() > 0.8) {
         setSector(prev => prev + 1);
       }
     }
-    prevTimeRef.current = timeOfDay;
-  }, [timeOfDay]);
+    prevSimDayRef.current = simDay;
+  }, [simDay]);
 
-  // Automatic Cycle: Changes every minute (representing time passing)
+  // Automatic weather: step the chain whenever the current spell runs out
   useEffect(() => {
     if (!isAutoMode) return;
+    if (weatherPlan.current !== weather) {
+      // Back from manual control - the chain carries on from the user's pick
+      setWeatherPlan(planWeather(seed, weather, simHours, dayCount, weatherPlan.spell + 1));
+      return;
+    }
+    if (simHours < weatherPlan.until) return;
+    const plan = advanceWeather(seed, weatherPlan, simHours, dayCount);
+    setWeatherPlan(plan);
+    setWeather(plan.current);
+  }, [simHours, isAutoMode]);
+
+  // Skip the clock forward to the next dawn / noon / dusk / night stop
+  const advanceTime = () => {
+    setSimHours(prev => prev + getHoursToNextCycleStop(prev));
+  };
 
-    const randomizeEnvironment = () => {
-      // Random Time
-      const times: TimeOfDay[] = ['day', 'night'];
-      const newTime = times[Math.floor(Math.random() * times.length)];
-      
-      // Random Weather
-      const weathers: Weather[] = ['clear', 'cloudy', 'rain', 'snow'];
-      const newWeather = weathers[Math.floor(Math.random() * weathers.length)];
-
-      setTimeOfDay(newTime);
-      setWeather(newWeather);
-    };
+  const updatePostFx = (pass: PostFxPass, change: Partial<PostFxSettings[PostFxPass]>) => {
+    setPostFx(prev => ({ ...prev, [pass]: { ...prev[pass], ...change } }));
+  };
 
-    const intervalId = setInterval(randomizeEnvironment, 60000); // 60 seconds
-    return () => clearInterval(intervalId);
-  }, [isAutoMode]);
+  const selectQuality = (preset: QualityPreset) => {
+    setQuality(preset);
+    setShadowQuality(QUALITY_SETTINGS[preset].shadows);
+  };
 
-  const toggleTime = () => {
-    setIsAutoMode(false);
-    setTimeOfDay(prev => prev === 'day' ? 'night' : 'day');
+  const cycleTargetFps = () => {
+    setTargetFps(prev => TARGET_FPS_OPTIONS[(TARGET_FPS_OPTIONS.indexOf(prev) + 1) % TARGET_FPS_OPTIONS.length]);
+  };
+
+  const cycleCameraView = () => {
+    const index = CAMERA_VIEWS.findIndex(v => v.id === cameraView);
+    setCameraView(CAMERA_VIEWS[(index + 1) % CAMERA_VIEWS.length].id);
+  };
+
+  const toggleDriverMode = () => {
+    // Take over with the controller at 0 and the valve in running position
+    setControllerNotch(0);
+    setBrakeValve('run');
+    setDriverStatus(null);
+    setIsDriverMode(!isDriverMode);
+  };
+
+  const stepBrakeValve = (step: number) => {
+    setBrakeValve(prev => {
+      const index = BRAKE_VALVE_POSITIONS.findIndex(p => p.id === prev) + step;
+      return BRAKE_VALVE_POSITIONS[Math.max(0, Math.min(BRAKE_VALVE_POSITIONS.length - 1, index))].id;
+    });
+  };
+
+  // Driver's keys: W/S controller, A/D brake valve, space for the vigilance handle.
+  // Only fields that take typing keep the keys; a focused toggle or slider does not
+  useEffect(() => {
+    if (!isDriverMode) return;
+    const isTextEntry = (target: EventTarget | null) =>
+      target instanceof HTMLTextAreaElement ||
+      (target instanceof HTMLInputElement && !['checkbox', 'radio', 'range', 'button'].includes(target.type)) ||
+      (target instanceof HTMLElement && target.isContentEditable);
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || isTextEntry(e.target)) return;
+      switch (e.code) {
+        case 'KeyW': setControllerNotch(prev => Math.min(CONTROLLER_NOTCHES, prev + 1)); break;
+        case 'KeyS': setControllerNotch(prev => Math.max(0, prev - 1)); break;
+        case 'KeyA': stepBrakeValve(-1); break;
+        case 'KeyD': stepBrakeValve(1); break;
+        case 'Space': setVigilanceSignal(prev => prev + 1); break;
+        default: return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isDriverMode]);
+
+  const cycleShadowQuality = () => {
+    setShadowQuality(prev => SHADOW_QUALITIES[(SHADOW_QUALITIES.indexOf(prev) + 1) % SHADOW_QUALITIES.length]);
   };
 
   const cycleWeather = () => {
     setIsAutoMode(false);
-    const states: Weather[] = ['clear', 'cloudy', 'rain', 'snow'];
-    const nextIndex = (states.indexOf(weather) + 1) % states.length;
-    setWeather(states[nextIndex]);
+    const nextIndex = (WEATHER_STATES.indexOf(weather) + 1) % WEATHER_STATES.length;
+    setWeather(WEATHER_STATES[nextIndex]);
   };
 
   const getTranslitWeather = (w: Weather) => {
     switch(w) {
         case 'clear': return 'YASNO';
         case 'cloudy': return 'OBLACHNO';
+        case 'fog': return 'TUMAN';
         case 'rain': return 'DOZHD';
+        case 'thunderstorm': return 'GROZA';
+        case 'sleet': return 'MOKRYY SNEG';
         case 'snow': return 'SNEG';
+        case 'blizzard': return 'METEL';
     }
   };
 
   const getTranslitTime = (t: TimeOfDay) => {
-      return t === 'day' ? 'DEN' : 'NOCH';
+      return `${formatClock(t)} ${getDayPeriod(t)}`;
   };
 
   // Calculate simulated signal strength based on known stations
@@ -102,55 +242,21 @@ const App: React.FC = () => {
 
   const signalStrength = getSignalStrength(radioFreq);
 
+  // Next stop summary for the HUD
+  const isDwelling = progress?.state === 'dwell';
+  const stopIndex = isDwelling ? progress!.arrivedIndex : (progress?.nextStationIndex ?? 0);
+  const nextStation = route.stations[stopIndex];
+  const scheduledArrival = timetable[stopIndex];
+  const expectedArrival = isDwelling
+    ? actualArrivals[stopIndex] ?? simHours
+    : simHours + realSecondsToSimHours(progress?.etaSeconds ?? 0);
+  const delayMinutes = Math.round((expectedArrival - scheduledArrival) * 60);
+  const formatDelay = (minutes: number) => minutes === 0 ? '±0' : (minutes > 0 ? `+${minutes}` : `${minutes}`);
+
   return (
     <div className="relative w-full h-screen bg-black text-amber-500 overflow-hidden font-mono selection:bg-amber-900 selection:text-white">
-      {/* CRT Styles */}
+      {/* HUD Styles */}
       <style>{`
-        @keyframes scanline {
-          0% { transform: translateY(0); }
-          100% { transform: translateY(100vh); }
-        }
-        @keyframes flicker {
-          0% { opacity: 0.97; }
-          5% { opacity: 0.92; }
-          10% { opacity: 0.98; }
-          15% { opacity: 0.94; }
-          20% { opacity: 0.98; }
-          50% { opacity: 0.99; }
-          80% { opacity: 0.96; }
-          100% { opacity: 0.97; }
-        }
-        .crt-overlay::before {
-          content: " ";
-          display: block;
-          position: absolute;
-          top: 0;
-          left: 0;
-          bottom: 0;
-          right: 0;
-          background: linear-gradient(rgba(18, 16, 16, 0) 50%, rgba(0, 0, 0, 0.25) 50%), linear-gradient(90deg, rgba(255, 0, 0, 0.06), rgba(0, 255, 0, 0.02), rgba(0, 0, 255, 0.06));
-          z-index: 50;
-          background-size: 100% 2px, 3px 100%;
-          pointer-events: none;
-        }
-        .crt-scanline {
-          width: 100%;
-          height: 5px;
-          background: rgba(255, 255, 255, 0.04);
-          position: absolute;
-          z-index: 51;
-          top: 0;
-          left: 0;
-          animation: scanline 6s linear infinite;
-          pointer-events: none;
-        }
-        .crt-vignette {
-          position: absolute;
-          inset: 0;
-          background: radial-gradient(circle, rgba(0,0,0,0) 60%, rgba(0,0,0,0.6) 100%);
-          z-index: 52;
-          pointer-events: none;
-        }
         .text-glow {
           text-shadow: 0 0 4px rgba(245, 158, 11, 0.5), 0 0 8px rgba(245, 158, 11, 0.3);
         }
@@ -210,21 +316,32 @@ const App: React.FC = () => {
       {/* 3D Scene Background */}
       <div className="absolute inset-0 z-0">
         <PostSovietTrainView 
+          seed={seed}
           audioEnabled={isAudioEnabled} 
           timeOfDay={timeOfDay}
           weather={weather}
           radioOn={isRadioOn}
           radioFreq={radioFreq}
           radioVol={radioVol}
+          route={route}
+          biome={biome}
+          postFx={postFx}
+          captureSignal={captureSignal}
+          shadowQuality={shadowQuality}
+          quality={quality}
+          autoResolution={isAutoResolution}
+          targetFps={targetFps}
+          cameraView={cameraView}
+          driverMode={isDriverMode}
+          controllerNotch={controllerNotch}
+          brakeValve={brakeValve}
+          vigilanceSignal={vigilanceSignal}
+          onRouteProgress={setProgress}
+          onPerformance={setPerfReport}
+          onDriverStatus={setDriverStatus}
         />
       </div>
 
-      {/* CRT Overlay Effects - Pass through clicks */}
-      <div className="absolute inset-0 z-[100] crt-overlay pointer-events-none animate-[flicker_4s_infinite]">
-        <div className="crt-scanline"></div>
-        <div className="crt-vignette"></div>
-      </div>
-
       {/* UI Layer - Pointer events none on container, auto on children */}
       <div 
         className={`absolute inset-0 z-10 transition-opacity duration-1000 ${isOverlayVisible ? 'opacity-100' : 'opacity-0'} pointer-events-none`}
@@ -243,14 +360,38 @@ const App: React.FC = () => {
                 <span className="opacity-60">SEKTOR</span>
                 <span className="text-amber-300">{sector.toString().padStart(3, '0')}</span>
              </div>
+             <div className="flex justify-between">
+                <span className="opacity-60">REGION</span>
+                <span className="text-amber-300 truncate max-w-[150px]">{BIOMES[biome].name}</span>
+             </div>
              <div className="flex justify-between">
                 <span className="opacity-60">REYS_ID</span>
                 <span className="text-amber-300">{flightId}</span>
              </div>
+             <div className="flex justify-between">
+                <span className="opacity-60">KM</span>
+                <span className="text-amber-300">{(progress?.lineKm ?? route.startKm).toFixed(1)}</span>
+             </div>
+             <div className="flex justify-between">
+                <span className="opacity-60">REYS_PROBEG</span>
+                <span className="text-amber-300">{(progress?.tripKm ?? 0).toFixed(1)} KM</span>
+             </div>
+             <div className="flex justify-between">
+                <span className="opacity-60">PROBEG_VSEGO</span>
+                <span className="text-amber-300">{odometerKm.toFixed(1)} KM</span>
+             </div>
              <div className="flex justify-between">
                 <span className="opacity-60">OPER_DEN</span>
                 <span className="text-amber-300">{dayCount}</span>
              </div>
+             <div className="flex justify-between">
+                <span className="opacity-60">SEZON</span>
+                <span className="text-amber-300">{season}</span>
+             </div>
+             <div className="flex justify-between">
+                <span className="opacity-60">SEED</span>
+                <span className="text-amber-300 truncate max-w-[120px]" title={window.location.href}>{seed}</span>
+             </div>
           </div>
 
           <div className="mt-2 pt-1 border-t border-amber-900/50 text-[9px] text-amber-600 flex justify-between tracking-wide">
@@ -265,10 +406,45 @@ const App: React.FC = () => {
               <span className="text-amber-600">POGODA:</span>
               <span className="text-amber-300 font-bold">{getTranslitWeather(weather)}</span>
            </div>
+           {isAutoMode && (
+             <div className="border-tech px-3 py-1 text-[10px] flex gap-4">
+                <span className="text-amber-600">PROGNOZ:</span>
+                <span className="text-amber-300 font-bold">{getTranslitWeather(weatherPlan.next)} {formatClock(weatherPlan.until % 24)}</span>
+             </div>
+           )}
            <div className="border-tech px-3 py-1 text-[10px] flex gap-4">
               <span className="text-amber-600">VREMYA:</span>
               <span className="text-amber-300 font-bold">{getTranslitTime(timeOfDay)}</span>
            </div>
+           {nextStation && (
+             <div className="border-tech px-3 py-2 w-56 text-[10px] space-y-1">
+                <div className="flex justify-between border-b border-amber-900/50 pb-1 mb-1">
+                   <span className="text-amber-600 tracking-widest">MARSHRUT</span>
+                   <span className={`text-[9px] tracking-widest ${isDwelling ? 'text-amber-200 animate-pulse' : 'text-amber-700'}`}>
+                      {isDwelling ? 'STOYANKA' : (progress?.state === 'braking' ? 'TORMOZH.' : 'V PUTI')}
+                   </span>
+                </div>
+                <div className="flex justify-between gap-2">
+                   <span className="opacity-60 text-amber-400/80">{isDwelling ? 'STANTSIYA' : 'SLED. ST'}</span>
+                   <span className="text-amber-300 font-bold truncate">{nextStation.name}</span>
+                </div>
+                <div className="flex justify-between">
+                   <span className="opacity-60 text-amber-400/80">RASST</span>
+                   <span className="text-amber-300">{(progress?.distanceKm ?? 0).toFixed(1)} KM</span>
+                </div>
+                <div className="flex justify-between">
+                   <span className="opacity-60 text-amber-400/80">PO RASP.</span>
+                   <span className="text-amber-300">{formatClock(scheduledArrival)}</span>
+                </div>
+                <div className="flex justify-between">
+                   <span className="opacity-60 text-amber-400/80">{isDwelling ? 'FAKT' : 'OZHID.'}</span>
+                   <span className="text-amber-300">
+                      {formatClock(expectedArrival)}
+                      <span className={`ml-1 ${delayMinutes > 0 ? 'text-red-400' : 'text-amber-500'}`}>{formatDelay(delayMinutes)}</span>
+                   </span>
+                </div>
+             </div>
+           )}
         </div>
 
         {/* Radio Module UI (Bottom Left) - Robust Hardware Style */}
@@ -369,17 +545,158 @@ const App: React.FC = () => {
       </div>
 
       {/* Control Bank (Bottom Right) - Compacted & Fixed Z-Index */}
-      <div className="absolute bottom-4 right-4 z-[90] pointer-events-auto">
+      <div className="absolute bottom-4 right-4 z-[90] pointer-events-auto flex flex-col items-end gap-2">
+         {/* Screen Effects Panel */}
+         {isFxPanelOpen && (
+           <div className="border-tech p-2 w-56 bg-[#0a0805] shadow-2xl text-[9px] space-y-1.5">
+              <div className="text-amber-600 tracking-widest border-b border-amber-900/50 pb-1">EKRAN // EFFEKTY</div>
+              {POST_FX_PASSES.map(({ id, label }) => (
+                <div key={id} className="flex items-center gap-2">
+                   <input
+                       type="checkbox"
+                       className="toggle-switch shrink-0"
+                       checked={postFx[id].enabled}
+                       onChange={() => updatePostFx(id, { enabled: !postFx[id].enabled })}
+                   />
+                   <span className={`w-20 tracking-wider ${postFx[id].enabled ? 'text-amber-400' : 'text-amber-800'}`}>{label}</span>
+                   <input
+                       type="range"
+                       min="0" max="1" step="0.05"
+                       value={postFx[id].amount}
+                       disabled={!postFx[id].enabled}
+                       onChange={(e) => updatePostFx(id, { amount: parseFloat(e.target.value) })}
+                       className="w-full accent-amber-600 disabled:opacity-30"
+                   />
+                </div>
+              ))}
+           </div>
+         )}
+         {/* Settings Panel */}
+         {isSettingsOpen && (
+           <div className="border-tech p-2 w-56 bg-[#0a0805] shadow-2xl text-[9px] space-y-1.5">
+              <div className="text-amber-600 tracking-widest border-b border-amber-900/50 pb-1">NASTROIKI // KACHESTVO</div>
+              <div className="grid grid-cols-4 gap-1">
+                {QUALITY_PRESETS.map(preset => (
+                  <button
+                      key={preset}
+                      onClick={() => selectQuality(preset)}
+                      className={`mechanical-btn h-5 border border-amber-700/50 hover:bg-amber-800/40 text-[8px] tracking-wider transition-colors uppercase ${quality === preset ? 'bg-amber-800/40 text-amber-200' : 'bg-amber-900/20 text-amber-500'}`}
+                  >
+                      {QUALITY_SETTINGS[preset].label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center justify-between">
+                 <span className="tracking-wider text-amber-400">TENI</span>
+                 <button
+                     onClick={cycleShadowQuality}
+                     className="mechanical-btn w-16 h-5 bg-amber-900/20 border border-amber-700/50 hover:bg-amber-800/40 text-[8px] text-amber-400 tracking-wider transition-colors uppercase"
+                 >
+                     {SHADOW_TIERS[shadowQuality].label}
+                 </button>
+              </div>
+              <div className="flex items-center gap-2">
+                 <input
+                     type="checkbox"
+                     className="toggle-switch shrink-0"
+                     checked={isAutoResolution}
+                     onChange={() => setIsAutoResolution(!isAutoResolution)}
+                 />
+                 <span className={`flex-1 tracking-wider ${isAutoResolution ? 'text-amber-400' : 'text-amber-800'}`}>AVTO RAZR.</span>
+                 <button
+                     onClick={cycleTargetFps}
+                     className="mechanical-btn w-16 h-5 bg-amber-900/20 border border-amber-700/50 hover:bg-amber-800/40 text-[8px] text-amber-400 tracking-wider transition-colors uppercase"
+                 >
+                     {targetFps} K/S
+                 </button>
+              </div>
+              <div className="flex justify-between border-t border-amber-900/50 pt-1 text-amber-600">
+                 <span>KADR/S <span className="text-amber-300">{perfReport ? Math.round(perfReport.fps) : '--'}</span></span>
+                 <span>RAZR. <span className="text-amber-300">{perfReport ? Math.round(perfReport.resolution * 100) : 100}%</span></span>
+              </div>
+           </div>
+         )}
+         {/* Driver's Desk */}
+         {isDriverMode && (
+           <div className="border-tech p-2 w-56 bg-[#0a0805] shadow-2xl text-[9px] space-y-1.5">
+              <div className="text-amber-600 tracking-widest border-b border-amber-900/50 pb-1">PULT // MASHINIST</div>
+              <div className="flex justify-between">
+                 <span className="text-amber-600">SKOROST</span>
+                 <span className={driverStatus && driverStatus.overspeed !== 'ok' ? 'text-red-400 font-bold' : 'text-amber-300'}>
+                    {Math.round(driverStatus?.speedKmh ?? 0)} / {driverStatus?.limitKmh ?? '--'} KM/CH
+                 </span>
+              </div>
+              <div className="flex items-center gap-2">
+                 <span className="w-10 tracking-wider text-amber-400">KONTR.</span>
+                 <div className="flex-1 grid grid-cols-5 gap-1">
+                   {[...Array(CONTROLLER_NOTCHES + 1)].map((_, notch) => (
+                     <button
+                         key={notch}
+                         onClick={() => setControllerNotch(notch)}
+                         className={`mechanical-btn h-5 border border-amber-700/50 hover:bg-amber-800/40 text-[8px] tracking-wider transition-colors ${controllerNotch === notch ? 'bg-amber-800/40 text-amber-200' : 'bg-amber-900/20 text-amber-500'}`}
+                     >
+                         {notch}
+                     </button>
+                   ))}
+                 </div>
+              </div>
+              <div className="flex items-center gap-2">
+                 <span className="w-10 tracking-wider text-amber-400">KRAN</span>
+                 <div className="flex-1 grid grid-cols-5 gap-1">
+                   {BRAKE_VALVE_POSITIONS.map(({ id, label, name }) => (
+                     <button
+                         key={id}
+                         title={name}
+                         onClick={() => setBrakeValve(id)}
+                         className={`mechanical-btn h-5 border border-amber-700/50 hover:bg-amber-800/40 text-[8px] tracking-wider transition-colors ${brakeValve === id ? 'bg-amber-800/40 text-amber-200' : 'bg-amber-900/20 text-amber-500'}`}
+                     >
+                         {label}
+                     </button>
+                   ))}
+                 </div>
+              </div>
+              <div className="flex items-center gap-2">
+                 <span className="w-10 tracking-wider text-amber-400">TORM.</span>
+                 <div className="flex-1 h-1.5 bg-amber-900/30">
+                    <div className="h-full bg-amber-500" style={{ width: `${Math.round((driverStatus?.brakeLevel ?? 0) * 100)}%` }} />
+                 </div>
+                 <span className="w-12 text-right text-amber-300">{BRAKE_VALVE_POSITIONS.find(p => p.id === brakeValve)?.name}</span>
+              </div>
+              {(driverStatus?.slipping || driverStatus?.sliding) && (
+                <div className="text-red-400 tracking-widest animate-pulse">{driverStatus.slipping ? 'BOKSOVANIE' : 'YUZ'}</div>
+              )}
+              <div className="flex items-center justify-between border-t border-amber-900/50 pt-1">
+                 <span className={
+                   driverStatus?.vigilance === 'braking' || driverStatus?.overspeed === 'braking'
+                     ? 'text-red-400 font-bold animate-pulse'
+                     : (driverStatus?.vigilance === 'warning' || driverStatus?.overspeed === 'warning' ? 'text-amber-200 animate-pulse' : 'text-amber-600')
+                 }>
+                    {driverStatus?.vigilance === 'braking' ? 'EKSTR. TORMOZH.'
+                      : driverStatus?.overspeed === 'braking' ? 'AVTOSTOP'
+                      : driverStatus?.vigilance === 'warning' ? 'PROVERKA BDIT.'
+                      : driverStatus?.overspeed === 'warning' ? 'PREVYSHENIE'
+                      : `BDIT. ${Math.ceil(driverStatus?.nextCheck ?? 0)} S`}
+                 </span>
+                 <button
+                     onClick={() => setVigilanceSignal(prev => prev + 1)}
+                     className="mechanical-btn w-16 h-5 bg-amber-900/20 border border-amber-700/50 hover:bg-amber-800/40 text-[8px] text-amber-400 tracking-wider transition-colors uppercase"
+                 >
+                     RB
+                 </button>
+              </div>
+              <div className="text-[7px] text-amber-800 tracking-widest">W/S KONTR. // A/D KRAN // PROBEL RB</div>
+           </div>
+         )}
          <div className="border-tech p-2 bg-[#0a0805] shadow-2xl">
              <div className="grid grid-cols-2 gap-x-2 gap-y-2">
                  
                  {/* Group 1 */}
                  <div className="flex flex-col items-center gap-0.5">
                     <button 
-                        onClick={toggleTime} 
+                        onClick={advanceTime} 
                         className="mechanical-btn w-full h-6 bg-amber-900/20 border border-amber-700/50 hover:bg-amber-800/40 text-[9px] text-amber-400 tracking-widest transition-colors flex items-center justify-center uppercase"
                     >
-                        {timeOfDay === 'day' ? 'D' : 'N'}
+                        {getDayPeriod(timeOfDay).substring(0,3)}
                     </button>
                     <span className="text-[7px] text-amber-800 uppercase tracking-widest">CYCLE</span>
                  </div>
@@ -415,6 +732,74 @@ const App: React.FC = () => {
                     <span className="text-[7px] text-amber-800 uppercase tracking-widest">AUD</span>
                  </div>
 
+                 {/* Group 3 */}
+                 <div className="flex flex-col items-center gap-0.5 mt-1">
+                    <button 
+                        onClick={() => setIsFxPanelOpen(!isFxPanelOpen)} 
+                        className={`mechanical-btn w-full h-6 border border-amber-700/50 hover:bg-amber-800/40 text-[9px] tracking-widest transition-colors flex items-center justify-center uppercase ${isFxPanelOpen ? 'bg-amber-800/40 text-amber-200' : 'bg-amber-900/20 text-amber-400'}`}
+                    >
+                        FX
+                    </button>
+                    <span className="text-[7px] text-amber-800 uppercase tracking-widest">EKRAN</span>
+                 </div>
+
+                 <div className="flex flex-col items-center gap-0.5 mt-1">
+                    <button 
+                        onClick={() => setCaptureSignal(prev => prev + 1)} 
+                        className="mechanical-btn w-full h-6 bg-amber-900/20 border border-amber-700/50 hover:bg-amber-800/40 text-[9px] text-amber-400 tracking-widest transition-colors flex items-center justify-center uppercase"
+                    >
+                        FOTO
+                    </button>
+                    <span className="text-[7px] text-amber-800 uppercase tracking-widest">SNIMOK</span>
+                 </div>
+
+                 {/* Group 4 */}
+                 <div className="flex flex-col items-center gap-0.5 mt-1">
+                    <button 
+                        onClick={() => setIsSettingsOpen(!isSettingsOpen)} 
+                        className={`mechanical-btn w-full h-6 border border-amber-700/50 hover:bg-amber-800/40 text-[9px] tracking-widest transition-colors flex items-center justify-center uppercase ${isSettingsOpen ? 'bg-amber-800/40 text-amber-200' : 'bg-amber-900/20 text-amber-400'}`}
+                    >
+                        {QUALITY_SETTINGS[quality].label}
+                    </button>
+                    <span className="text-[7px] text-amber-800 uppercase tracking-widest">NASTR</span>
+                 </div>
+
+                 <div className="flex flex-col items-center gap-0.5 mt-1">
+                    <button 
+                        onClick={cycleCameraView} 
+                        className="mechanical-btn w-full h-6 bg-amber-900/20 border border-amber-700/50 hover:bg-amber-800/40 text-[9px] text-amber-400 tracking-widest transition-colors flex items-center justify-center uppercase"
+                    >
+                        {CAMERA_VIEWS.find(v => v.id === cameraView)?.label}
+                    </button>
+                    <span className="text-[7px] text-amber-800 uppercase tracking-widest">VID</span>
+                 </div>
+
+                 {/* Group 5 */}
+                 <div className="flex flex-col items-center gap-0.5 mt-1">
+                    <input 
+                        type="checkbox" 
+                        className="toggle-switch"
+                        checked={isDriverMode}
+                        onChange={e => {
+                            toggleDriverMode();
+                            // Let go of focus, or space would flip the switch back
+                            e.currentTarget.blur();
+                        }}
+                    />
+                    <span className="text-[7px] text-amber-800 uppercase tracking-widest">MASH</span>
+                 </div>
+
+                 <div className="flex flex-col items-center gap-0.5 mt-1">
+                    <button 
+                        onClick={() => setVigilanceSignal(prev => prev + 1)} 
+                        disabled={!isDriverMode}
+                        className="mechanical-btn w-full h-6 bg-amber-900/20 border border-amber-700/50 hover:bg-amber-800/40 text-[9px] text-amber-400 tracking-widest transition-colors flex items-center justify-center uppercase disabled:opacity-30"
+                    >
+                        RB
+                    </button>
+                    <span className="text-[7px] text-amber-800 uppercase tracking-widest">BDIT</span>
+                 </div>
+
              </div>
              
              {/* Main Toggle */}
@@ -1,23 +1,288 @@
 import React, { useEffect, useRef } from "react";
 import * as THREE from "three";
+import { EffectComposer } from "three/examples/jsm/postprocessing/EffectComposer.js";
+import { RenderPass } from "three/examples/jsm/postprocessing/RenderPass.js";
+import { UnrealBloomPass } from "three/examples/jsm/postprocessing/UnrealBloomPass.js";
+import { AfterimagePass } from "three/examples/jsm/postprocessing/AfterimagePass.js";
+import { OutputPass } from "three/examples/jsm/postprocessing/OutputPass.js";
+import { ShaderPass } from "three/examples/jsm/postprocessing/ShaderPass.js";
+import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
 import { TimeOfDay, Weather } from "../App";
+import { createRng, Rng } from "../utils/random";
+import { getDaylight, getSunAngle, getTwilight, wrapHours } from "../utils/dayCycle";
+import { Route, RouteProgress, Station, TrainState } from "../utils/route";
+import { BIOMES, BiomeId, PropKind, pickProp } from "../utils/biomes";
+import { createTrackProfile, TrackSample, TrackStructure } from "../utils/track";
+import { createWindscreen, GLASS_HEIGHT, GLASS_WIDTH, WIPER_PIVOT_Y } from "../utils/windscreen";
+import { PostFxSettings } from "../utils/postFx";
+import { SHADOW_TIERS, ShadowQuality } from "../utils/shadows";
+import { PerformanceReport, QUALITY_SETTINGS, QualityPreset, createResolutionGovernor } from "../utils/quality";
+import { CameraView } from "../utils/cameraViews";
+import { BrakeValve, CONTROLLER_NOTCHES, DriverStatus, createSafetyDevice } from "../utils/driverControls";
+import { RAIL_ADHESION, createDynamicsState, getAutoControls, stepDynamics } from "../utils/trainDynamics";
+import { NO_LOAD_VOLTAGE, createCatenary } from "../utils/catenary";
+import { ASPECT_SPEED, BLOCK_LENGTH, CAB_SIGNALS, CabSignal, SignalAspect, blockAt, createBlockSystem, getCabSignal, signalPosition } from "../utils/signalling";
+
+// Sunrise / sunset palette blended in while the sun sits on the horizon
+const SUNSET_FOG = new THREE.Color(0xc07a5e);
+const SUNSET_LIGHT = new THREE.Color(0xff8a4c);
+
+// Fog colour and density per weather, for full day and full night
+const WEATHER_FOG: Record<Weather, { day: number, dayDensity: number, night: number, nightDensity: number }> = {
+  clear:        { day: 0x8a96a3, dayDensity: 0.02,  night: 0x05070a, nightDensity: 0.015 },
+  cloudy:       { day: 0x778899, dayDensity: 0.03,  night: 0x05070a, nightDensity: 0.015 },
+  fog:          { day: 0xa8b0b4, dayDensity: 0.11,  night: 0x101214, nightDensity: 0.09 },
+  rain:         { day: 0x556677, dayDensity: 0.05,  night: 0x05070a, nightDensity: 0.04 },
+  thunderstorm: { day: 0x3a4452, dayDensity: 0.055, night: 0x04060a, nightDensity: 0.045 },
+  sleet:        { day: 0x7a8590, dayDensity: 0.05,  night: 0x12141a, nightDensity: 0.04 },
+  snow:         { day: 0xccdde5, dayDensity: 0.04,  night: 0x1a1c22, nightDensity: 0.035 },
+  blizzard:     { day: 0xdde6ec, dayDensity: 0.14,  night: 0x262a32, nightDensity: 0.12 },
+};
+
+// Station stops
+const STOP_DECEL = 0.4;               // m/s^2 service braking towards a platform
+const STATION_SPAWN_DISTANCE = 160;   // platforms appear when this close
+const PROGRESS_REPORT_INTERVAL = 0.25;
+
+// Driver mode: the driver has to bring the cab within this many metres of the
+// stopping mark
+const STOP_TOLERANCE = 15;
+
+// Block signals are put up this far ahead; a red one is stopped short of by the margin
+const SIGNAL_SPAWN_DISTANCE = 450;
+const SIGNAL_STOP_MARGIN = 30;
+
+// Kilometre posts and the 100 m pickets between them
+const PICKET_SPACING = 100;
+const MARKER_SPAWN_DISTANCE = 250;
+
+// Metres of travel over which a new biome fully takes over the generator
+const BIOME_TRANSITION_DISTANCE = 600;
+
+// Track ribbons (rails, ballast) are rebuilt around the train every frame, as
+// far back as the current camera view needs (up to RIBBON_BEHIND_MAX)
+const RIBBON_BEHIND_MAX = 300;
+const RIBBON_AHEAD = 180;
+const RIBBON_STEP = 2.5;
+const CURVE_LOOKAHEAD = 1500;
+
+// Frames between redraws of the scene seen through the wet windscreen
+const BEHIND_GLASS_INTERVAL = 2;
+
+// Second track to the left carrying oncoming and overtaking traffic
+const PARALLEL_TRACK_OFFSET = -4.1;
+const TRAFFIC_SPAWN_AHEAD = 650;
+const TRAFFIC_SPAWN_BEHIND = 350;
+
+// Our own elektrichka: cab cars at both ends with trailers between. The head
+// car's front sits just ahead of the cab windscreen
+const OWN_CARS = 4;
+const OWN_CAR_LENGTH = 20;
+const OWN_CAR_GAP = 1;
+const OWN_HEAD_OFFSET = OWN_CAR_LENGTH / 2 - 1;
+
+// Metres of line kept behind the cab for each camera view, and the time a
+// switch between views takes
+const VIEW_BEHIND: Record<CameraView, number> = { cab: 20, side: 80, rear: 290, chase: 120, orbit: 290 };
+const VIEW_TRANSITION = 1.2;
+
+// Scenery streams in fixed-length chunks built ahead of the cab (as far as the
+// quality preset's draw distance) and released behind it; their instance slots
+// and ground tiles are then reused further on
+const CHUNK_LENGTH = 40;
+const ROW_SPACING = 4;
+const GROUND_HALF_WIDTH = 100;
+const GROUND_COLUMNS = 20;
+const GROUND_STEP = 5;
+
+// Tunnels, bridges and overpasses are built whole once this close
+const STRUCTURE_SPAWN_DISTANCE = 350;
+const BRIDGE_PANEL = 12;
+const TUNNEL_SEGMENT = 10;
+
+// Level crossings: lights and bell start first, the barriers follow
+const CROSSING_WARNING_DISTANCE = 350;
+const CROSSING_CLOSE_DISTANCE = 220;
+const BARRIER_SPEED = 0.3;            // rad/s
+const BELL_STRIKE_RATE = 7;           // strikes per second
+
+// Panel house facades: a grid of windows on a square texture (sizes in pixels).
+// The window shader recomputes the same grid to light each window on its own
+const FACADE_SIZE = 512;
+const FACADE_ROWS = 8;
+const FACADE_COLS = 4;
+const FACADE_PAD_X = 10;
+const FACADE_PAD_Y = 15;
+
+// Final CRT pass, run on the display-encoded image: chromatic aberration, barrel
+// distortion with a vignette, scanlines with a rolling bar and flicker, and grain
+const CRT_SHADER = {
+  uniforms: {
+    tDiffuse: { value: null },
+    uTime: { value: 0 },
+    uLines: { value: 540 },
+    uChroma: { value: 0 },
+    uBarrel: { value: 0 },
+    uScanlines: { value: 0 },
+    uGrain: { value: 0 },
+  },
+  vertexShader: `
+    varying vec2 vUv;
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: `
+    uniform sampler2D tDiffuse;
+    uniform float uTime;
+    uniform float uLines;
+    uniform float uChroma;
+    uniform float uBarrel;
+    uniform float uScanlines;
+    uniform float uGrain;
+    varying vec2 vUv;
+
+    float hash(vec2 p) {
+      return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+    }
+
+    void main() {
+      // Bulge the picture like a curved tube; corners stay in frame
+      vec2 c = vUv - 0.5;
+      vec2 uv = 0.5 + c * (1.0 + uBarrel * dot(c, c)) / (1.0 + uBarrel * 0.5);
+      if (uv.x < 0.0 || uv.x > 1.0 || uv.y < 0.0 || uv.y > 1.0) {
+        gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+        return;
+      }
+
+      // Red and blue guns drift apart towards the edges
+      vec2 shift = (uv - 0.5) * uChroma;
+      vec3 col = vec3(
+        texture2D(tDiffuse, uv + shift).r,
+        texture2D(tDiffuse, uv).g,
+        texture2D(tDiffuse, uv - shift).b
+      );
+
+      float line = 0.5 + 0.5 * cos(uv.y * uLines * 6.2831853);
+      float bar = smoothstep(0.0, 0.02, fract(uv.y - uTime / 6.0)) * smoothstep(0.04, 0.02, fract(uv.y - uTime / 6.0));
+      float flicker = 1.0 - 0.03 * hash(vec2(floor(uTime * 12.0), 0.0));
+      col *= mix(1.0, (0.75 + 0.25 * line) * flicker, uScanlines);
+      col += vec3(0.04) * bar * uScanlines;
+
+      col += (hash(uv * 1000.0 + fract(uTime) * 100.0) - 0.5) * uGrain;
+
+      float vignette = smoothstep(0.9, 0.35, length(c));
+      col *= mix(1.0, vignette, 0.6);
+      gl_FragColor = vec4(col, 1.0);
+    }
+  `,
+};
+
+type TrafficKind = 'elektrichka' | 'freight' | 'express';
+
+interface TrafficTrain {
+  kind: TrafficKind;
+  cars: THREE.Group[];
+  carOffsets: number[];   // car centres, metres behind the head
+  bogieOffsets: number[]; // bogies, metres behind the head
+  length: number;
+  headS: number;
+  direction: 1 | -1;      // +1 runs the same way as us, -1 oncoming
+  speed: number;          // m/s
+  lights: THREE.PointLight[];
+  windowMat: THREE.MeshStandardMaterial | null;
+  lastBogieRel: number[];
+}
+
+interface CrossingState {
+  structure: TrackStructure;
+  barriers: { pivot: THREE.Group, raised: number }[];
+  redMats: THREE.MeshStandardMaterial[]; // flash alternately
+  lunarMat: THREE.MeshStandardMaterial;  // slow white blink while the road is open
+  glow: THREE.PointLight;
+  bellGain: GainNode | null;
+  bellPanner: StereoPannerNode | null;
+  nextStrike: number;
+}
+
+type InstanceAttribute = 'aSnow' | 'aGlow' | 'aPhase' | 'aWindows';
+
+interface InstanceBatch {
+  mesh: THREE.InstancedMesh;
+  free: number[];                       // released slots below mesh.count
+  attribute: InstanceAttribute | null;  // per-instance value read by the material
+}
+
+interface SceneryProp {
+  parts: { batch: InstanceBatch, index: number }[];
+  light: THREE.PointLight | null;
+}
+
+// Biomes a chunk's props are rolled from: blend is the share of the new one
+interface BiomeMix {
+  biome: BiomeId;
+  prevBiome: BiomeId;
+  blend: number;
+}
+
+interface SceneryChunk {
+  index: number;
+  ground: THREE.Mesh;
+  props: SceneryProp[];
+}
 
 interface PostSovietTrainViewProps {
+  seed: string;
   audioEnabled: boolean;
   timeOfDay: TimeOfDay;
   weather: Weather;
   radioOn: boolean;
   radioFreq: number;
   radioVol: number;
+  route: Route;
+  biome: BiomeId;
+  postFx: PostFxSettings;
+  captureSignal: number; // bumped to save a screenshot of the next frame
+  shadowQuality: ShadowQuality;
+  quality: QualityPreset;
+  autoResolution: boolean;
+  targetFps: number;
+  cameraView: CameraView;
+  driverMode: boolean;
+  controllerNotch: number;  // 0..CONTROLLER_NOTCHES
+  brakeValve: BrakeValve;
+  vigilanceSignal: number;  // bumped each time the vigilance handle is pressed
+  onRouteProgress?: (progress: RouteProgress) => void;
+  onPerformance?: (report: PerformanceReport) => void;
+  onDriverStatus?: (status: DriverStatus) => void;
 }
 
 const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({ 
+    seed,
     audioEnabled, 
     timeOfDay, 
     weather,
     radioOn,
     radioFreq,
-    radioVol
+    radioVol,
+    route,
+    biome,
+    postFx,
+    captureSignal,
+    shadowQuality,
+    quality,
+    autoResolution,
+    targetFps,
+    cameraView,
+    driverMode,
+    controllerNotch,
+    brakeValve,
+    vigilanceSignal,
+    onRouteProgress,
+    onPerformance,
+    onDriverStatus
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   
@@ -25,12 +290,16 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
   const audioCtxRef = useRef<AudioContext | null>(null);
   const masterGainRef = useRef<GainNode | null>(null);
   const rainGainRef = useRef<GainNode | null>(null);
+  const windGainRef = useRef<GainNode | null>(null);
   
   // Radio Audio Refs
   const radioMasterGainRef = useRef<GainNode | null>(null);
   const radioStaticGainRef = useRef<GainNode | null>(null);
   const radioMusicGainRef = useRef<GainNode | null>(null);
   const radioFilterRef = useRef<BiquadFilterNode | null>(null);
+  const radioMuffleRef = useRef<BiquadFilterNode | null>(null);
+  const tunnelWetGainRef = useRef<GainNode | null>(null);
+  const safetyWhistleGainRef = useRef<GainNode | null>(null);
   const sequencerInterval = useRef<any>(null);
 
   // Scene Refs
@@ -38,14 +307,13 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
   const ambientLightRef = useRef<THREE.AmbientLight | null>(null);
   const dirLightRef = useRef<THREE.DirectionalLight | null>(null);
   const interiorLightRef = useRef<THREE.PointLight | null>(null);
-  const rainSystemRef = useRef<THREE.Points | null>(null);
+  const rainSystemRef = useRef<THREE.LineSegments | null>(null);
   const snowSystemRef = useRef<THREE.Points | null>(null);
   const starsRef = useRef<THREE.Points | null>(null);
   const streetLightsRef = useRef<THREE.PointLight[]>([]);
   const snowCapsRef = useRef<THREE.Mesh[]>([]); // Track snow caps for smooth fading
   const groundRef = useRef<THREE.Mesh | null>(null);
   const wiperPivotRef = useRef<THREE.Group | null>(null);
-  const peopleRef = useRef<THREE.Group[]>([]);
   
   // Instrument Refs
   const gaugeNeedlesRef = useRef<THREE.Object3D[]>([]);
@@ -60,8 +328,41 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
   const nextSignTimeRef = useRef<number>(0);
   const activeSignsRef = useRef<{ mesh: THREE.Group, limit: number, passed: boolean }[]>([]);
 
+  // Driver Mode Refs
+  const driverModeRef = useRef<boolean>(driverMode);
+  const controllerNotchRef = useRef<number>(controllerNotch);
+  const brakeValveRef = useRef<BrakeValve>(brakeValve);
+  const vigilanceRequestedRef = useRef<boolean>(false);
+  const onDriverStatusRef = useRef(onDriverStatus);
+
+  // Route Refs
+  const routeRef = useRef<Route>(route);
+  const onRouteProgressRef = useRef(onRouteProgress);
+  const routePosRef = useRef<number>(0); // metres travelled from route.startKm
+  const stopIndexRef = useRef<number>(0);
+  const trainStateRef = useRef<TrainState>('running');
+  const dwellUntilRef = useRef<number>(0);
+  const arrivedIndexRef = useRef<number>(-1);
+  const stationWindowMatsRef = useRef<THREE.MeshStandardMaterial[]>([]);
+
+  // Biome Refs - blend runs 0..1 from prevBiome to biome
+  const biomeRef = useRef<BiomeId>(biome);
+  const prevBiomeRef = useRef<BiomeId>(biome);
+  const biomeBlendRef = useRef<number>(1);
+
+  // Track structure under the cab, shared with the audio loops
+  const onBridgeRef = useRef<boolean>(false);
+
   // Refs for Animation Loop logic
   const weatherRef = useRef<Weather>(weather);
+  const postFxRef = useRef<PostFxSettings>(postFx);
+  const captureRequestedRef = useRef<boolean>(false);
+  const shadowQualityRef = useRef<ShadowQuality>(shadowQuality);
+  const qualityRef = useRef<QualityPreset>(quality);
+  const autoResolutionRef = useRef<boolean>(autoResolution);
+  const targetFpsRef = useRef<number>(targetFps);
+  const onPerformanceRef = useRef(onPerformance);
+  const cameraViewRef = useRef<CameraView>(cameraView);
 
   // --- Environment Interpolation Targets ---
   const envTargets = useRef({
@@ -70,89 +371,165 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
       ambientIntensity: 0.3,
       dirIntensity: 0.6,
       dirColor: new THREE.Color(0xaaccff),
+      dirPosition: new THREE.Vector3(-20, 30, 10),
       interiorIntensity: 0.1,
       interiorColor: new THREE.Color(0xffaa55),
       rainOpacity: 0,
       snowOpacity: 0,
+      rainSpeed: 20,
+      snowSpeed: 2.5,
+      wind: 2,
       starOpacity: 0,
       snowCapOpacity: 0,
       groundColor: new THREE.Color(0x383a38),
       groundRoughness: 1.0,
       streetLightIntensity: 0,
       instrumentEmission: 0,
+      glassCold: 0.3,
+      humidity: 0.3,
+      windowDarkness: 0,
+      windowHour: 12,
   });
 
   useEffect(() => {
     weatherRef.current = weather;
   }, [weather]);
 
-  // --- Environment Reactive Updates ---
   useEffect(() => {
-    const isNight = timeOfDay === 'night';
-    const isRain = weather === 'rain';
-    const isSnow = weather === 'snow';
-    const isCloudy = weather === 'cloudy';
+    postFxRef.current = postFx;
+  }, [postFx]);
 
-    const t = envTargets.current;
+  useEffect(() => {
+    if (captureSignal > 0) captureRequestedRef.current = true;
+  }, [captureSignal]);
 
-    // 1. Fog & Background Color Targets
-    if (isNight) {
-        t.fogColor.setHex(0x05070a); // Deep dark night
-        if (isSnow) {
-            t.fogColor.setHex(0x1a1c22); // Night Snow
-            t.fogDensity = 0.035;
-        } else {
-            t.fogDensity = isRain ? 0.04 : 0.015;
-        }
-    } else {
-        // Day
-        if (isRain) {
-            t.fogColor.setHex(0x556677); // Grey Rain
-            t.fogDensity = 0.05;
-        } else if (isSnow) {
-            t.fogColor.setHex(0xccdde5); // White/Grey Snow Mist
-            t.fogDensity = 0.04;
-        } else if (isCloudy) {
-            t.fogColor.setHex(0x778899); // Cloudy
-            t.fogDensity = 0.03;
-        } else {
-            t.fogColor.setHex(0x8a96a3); // Clear Day
-            t.fogDensity = 0.02;
-        }
-    }
+  useEffect(() => {
+    shadowQualityRef.current = shadowQuality;
+  }, [shadowQuality]);
+
+  useEffect(() => {
+    qualityRef.current = quality;
+    autoResolutionRef.current = autoResolution;
+    targetFpsRef.current = targetFps;
+    onPerformanceRef.current = onPerformance;
+  }, [quality, autoResolution, targetFps, onPerformance]);
+
+  useEffect(() => {
+    cameraViewRef.current = cameraView;
+  }, [cameraView]);
+
+  useEffect(() => {
+    driverModeRef.current = driverMode;
+    controllerNotchRef.current = controllerNotch;
+    brakeValveRef.current = brakeValve;
+    onDriverStatusRef.current = onDriverStatus;
+  }, [driverMode, controllerNotch, brakeValve, onDriverStatus]);
+
+  useEffect(() => {
+    if (vigilanceSignal > 0) vigilanceRequestedRef.current = true;
+  }, [vigilanceSignal]);
+
+  useEffect(() => {
+    if (biome === biomeRef.current) return;
+    prevBiomeRef.current = biomeBlendRef.current < 0.5 ? prevBiomeRef.current : biomeRef.current;
+    biomeRef.current = biome;
+    biomeBlendRef.current = 0;
+  }, [biome]);
+
+  useEffect(() => {
+    routeRef.current = route;
+    onRouteProgressRef.current = onRouteProgress;
+  }, [route, onRouteProgress]);
 
-    t.rainOpacity = isRain ? 0.6 : 0;
-    t.snowOpacity = isSnow ? 0.8 : 0;
-    t.starOpacity = (isNight && !isRain && !isCloudy && !isSnow) ? 0.8 : 0;
+  // --- Environment Reactive Updates ---
+  useEffect(() => {
+    const isWet = weather === 'rain' || weather === 'thunderstorm' || weather === 'sleet';
+    const isSnowy = weather === 'snow' || weather === 'blizzard';
+    const isClear = weather === 'clear';
+    const isCloudy = weather === 'cloudy';
 
-    const snowBoost = isSnow ? 0.2 : 0;
-    t.ambientIntensity = (isNight ? 0.1 : (isRain ? 0.3 : 0.5)) + snowBoost;
-    t.dirIntensity = isNight ? 0.1 : (isRain || isSnow ? 0.2 : 0.8);
-    t.dirColor.setHex(isNight ? 0x88aaff : (isSnow ? 0xddeeff : 0xffddaa));
+    const t = envTargets.current;
 
-    t.interiorIntensity = isNight ? 0.4 : 0.05;
-    t.interiorColor.setHex(isNight ? 0xffaa55 : 0xffffff);
+    // 0. Sun position on the continuous clock
+    const sunAngle = getSunAngle(timeOfDay);
+    const elevation = Math.sin(sunAngle);
+    const daylight = getDaylight(timeOfDay);   // 0 night .. 1 day
+    const twilight = getTwilight(timeOfDay);   // sunrise / sunset glow
+    const darkness = 1 - THREE.MathUtils.smoothstep(elevation, -0.05, 0.12);
+    // Overcast skies mute the sunrise colours
+    const glow = twilight * (isClear ? 1.0 : (isCloudy ? 0.5 : 0.25));
 
-    t.streetLightIntensity = isNight ? 2.0 : 0;
+    // Below the horizon the light becomes moonlight from the opposite side of the sky
+    t.dirPosition.set(Math.cos(sunAngle) * 40, Math.abs(elevation) * 40 + 4, -15);
 
-    t.snowCapOpacity = isSnow ? 1.0 : 0.0;
-    if (isSnow) {
+    // 1. Fog & Background Color Targets
+    const fog = WEATHER_FOG[weather];
+    const nightFog = new THREE.Color(fog.night);
+    const dayFog = new THREE.Color(fog.day);
+    const region = BIOMES[biome];
+    dayFog.lerp(new THREE.Color(region.fogTint), 0.35);
+    t.fogColor.copy(nightFog).lerp(dayFog, daylight).lerp(SUNSET_FOG, glow * 0.7);
+    t.fogDensity = THREE.MathUtils.lerp(fog.nightDensity, fog.dayDensity, daylight);
+
+    // 2. Precipitation: opacity, fall speed and the wind pushing it sideways
+    t.rainOpacity = weather === 'thunderstorm' ? 0.85 : (weather === 'rain' ? 0.6 : (weather === 'sleet' ? 0.35 : 0));
+    t.snowOpacity = weather === 'blizzard' ? 1.0 : (weather === 'snow' ? 0.8 : (weather === 'sleet' ? 0.5 : 0));
+    t.rainSpeed = weather === 'thunderstorm' ? 28 : (weather === 'sleet' ? 16 : 20);
+    t.snowSpeed = weather === 'sleet' ? 7 : (weather === 'blizzard' ? 4 : 2.5);
+    t.wind = weather === 'blizzard' ? 22 : (weather === 'thunderstorm' ? 9 : (weather === 'sleet' ? 5 : (isWet ? 4 : 2)));
+    t.starOpacity = isClear ? 0.8 * (1 - THREE.MathUtils.smoothstep(elevation, -0.25, 0.02)) : 0;
+
+    const snowBoost = isSnowy ? 0.2 : 0;
+    let dayAmbient = 0.5;
+    let daySun = 0.8;
+    if (weather === 'thunderstorm') { dayAmbient = 0.2; daySun = 0.1; }
+    else if (isWet) { dayAmbient = 0.3; daySun = 0.2; }
+    else if (weather === 'fog') { dayAmbient = 0.45; daySun = 0.15; }
+    else if (weather === 'blizzard') { dayAmbient = 0.4; daySun = 0.1; }
+    else if (isSnowy) { daySun = 0.2; }
+    t.ambientIntensity = THREE.MathUtils.lerp(0.1, dayAmbient, daylight) + snowBoost;
+    t.dirIntensity = THREE.MathUtils.lerp(0.1, daySun, daylight);
+    t.dirColor.setHex(0x88aaff).lerp(new THREE.Color(isSnowy ? 0xddeeff : 0xffddaa), daylight).lerp(SUNSET_LIGHT, glow);
+
+    t.interiorIntensity = THREE.MathUtils.lerp(0.05, 0.4, darkness);
+    t.interiorColor.setHex(0xffffff).lerp(new THREE.Color(0xffaa55), darkness);
+
+    t.streetLightIntensity = 2.0 * darkness;
+
+    t.snowCapOpacity = isSnowy ? 1.0 : (weather === 'sleet' ? 0.3 : 0.0);
+    if (isSnowy) {
         t.groundColor.setHex(0xdddddd);
         t.groundRoughness = 0.6;
+    } else if (isWet) {
+        // Soaked ground goes darker and picks up a sheen
+        t.groundColor.setHex(region.groundColor).multiplyScalar(0.7);
+        t.groundRoughness = 0.5;
     } else {
-        t.groundColor.setHex(0x383a38);
+        t.groundColor.setHex(region.groundColor);
         t.groundRoughness = 1.0;
     }
 
-    t.instrumentEmission = (isNight || isRain || isCloudy || isSnow) ? 3.0 : 0.0; 
+    t.instrumentEmission = isClear ? 3.0 * darkness : 3.0; 
 
-  }, [timeOfDay, weather]);
+    // 3. Windscreen frost and misting: clear nights radiate heat away, snow chills the glass
+    const baseCold = isSnowy ? 0.85 : (weather === 'sleet' ? 0.7 : (weather === 'fog' ? 0.5 : (isClear ? 0.55 : 0.35)));
+    t.glassCold = baseCold * (0.65 + 0.35 * darkness) + (isClear ? 0.25 * darkness : 0);
+    t.humidity = isWet ? 1.0 : (weather === 'fog' ? 0.9 : (isSnowy ? 0.65 : (isCloudy ? 0.4 : 0.2)));
+
+    // 4. Apartment windows follow the clock; a dark, wet afternoon brings lamps on early
+    t.windowDarkness = Math.min(1, darkness + (isWet ? 0.2 : 0));
+    t.windowHour = wrapHours(timeOfDay);
+
+  }, [timeOfDay, weather, biome]);
 
   // --- Building Texture Generator ---
   useEffect(() => {
     // Generate 3 variations of Panel House textures
-    const generatePanelTexture = (mainColor: string, windowProb: number) => {
-        const size = 512;
+    const rng = createRng(`${seed}:facades`);
+    // The emissive map only masks the glass; which windows are lit is decided per
+    // building in the facade shader
+    const generatePanelTexture = (mainColor: string) => {
+        const size = FACADE_SIZE;
         const canvas = document.createElement('canvas');
         canvas.width = size;
         canvas.height = size;
@@ -172,10 +549,10 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
         eCtx.fillRect(0,0,size,size);
 
         // Grid
-        const rows = 8;
-        const cols = 4;
-        const padX = 10;
-        const padY = 15;
+        const rows = FACADE_ROWS;
+        const cols = FACADE_COLS;
+        const padX = FACADE_PAD_X;
+        const padY = FACADE_PAD_Y;
         const w = (size - (padX * (cols+1))) / cols;
         const h = (size - (padY * (rows+1))) / rows;
 
@@ -192,17 +569,10 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
                 ctx.fillStyle = '#111111';
                 ctx.fillRect(x+2,y+2,w-4,h-4);
 
-                // Lit Window Logic
-                if (Math.random() < windowProb) {
-                    const hue = 30 + Math.random() * 30; // Orange/Yellow
-                    const litColor = `hsl(${hue}, 100%, 50%)`;
-                    eCtx.fillStyle = litColor;
-                    eCtx.fillRect(x+4, y+4, w-8, h-8);
-                    
-                    // Add slight reflection to diffuse map
-                    ctx.fillStyle = '#332200';
-                    ctx.fillRect(x+4, y+4, w-8, h-8);
-                }
+                // Light through the glass; heavy curtains let less of it out
+                const curtain = Math.floor(150 + rng() * 105);
+                eCtx.fillStyle = `rgb(${curtain}, ${curtain}, ${curtain})`;
+                eCtx.fillRect(x+4, y+4, w-8, h-8);
             }
         }
         
@@ -224,13 +594,13 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
     };
 
     const textures = [
-        generatePanelTexture('#70757a', 0.3),
-        generatePanelTexture('#676d72', 0.5), // More lit windows
-        generatePanelTexture('#7e8380', 0.2)
+        generatePanelTexture('#70757a'),
+        generatePanelTexture('#676d72'),
+        generatePanelTexture('#7e8380')
     ];
     // Filter out nulls
     buildingTexturesRef.current = textures.filter(t => t !== null) as {map: THREE.Texture, emissive: THREE.Texture}[];
-  }, []);
+  }, [seed]);
 
   // --- Audio Logic Initialization ---
   useEffect(() => {
@@ -246,6 +616,24 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
         masterGain.connect(ctx.destination);
         masterGainRef.current = masterGain;
 
+        // Tunnel reverb: a send from the whole mix through a synthetic impulse response
+        const irLength = Math.floor(ctx.sampleRate * 2.2);
+        const impulse = ctx.createBuffer(2, irLength, ctx.sampleRate);
+        for (let ch = 0; ch < 2; ch++) {
+            const irData = impulse.getChannelData(ch);
+            for (let i = 0; i < irLength; i++) {
+                irData[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / irLength, 3);
+            }
+        }
+        const convolver = ctx.createConvolver();
+        convolver.buffer = impulse;
+        const tunnelWet = ctx.createGain();
+        tunnelWet.gain.value = 0;
+        masterGain.connect(convolver);
+        convolver.connect(tunnelWet);
+        tunnelWet.connect(ctx.destination);
+        tunnelWetGainRef.current = tunnelWet;
+
         // 1. Background Rumble
         const bufferSize = ctx.sampleRate * 2;
         const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
@@ -308,12 +696,57 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
         rainGain.connect(masterGain);
         rainSrc.start();
 
+        // 3. Wind: band-passed noise whose pitch and level gust on slow LFOs
+        const windSrc = ctx.createBufferSource();
+        windSrc.buffer = rainBuffer;
+        windSrc.loop = true;
+        windSrc.playbackRate.value = 0.5;
+
+        const windFilter = ctx.createBiquadFilter();
+        windFilter.type = 'bandpass';
+        windFilter.frequency.value = 450;
+        windFilter.Q.value = 0.8;
+        const pitchLfo = ctx.createOscillator();
+        pitchLfo.frequency.value = 0.13;
+        const pitchDepth = ctx.createGain();
+        pitchDepth.gain.value = 250;
+        pitchLfo.connect(pitchDepth);
+        pitchDepth.connect(windFilter.frequency);
+
+        const gustGain = ctx.createGain();
+        gustGain.gain.value = 0.7;
+        const gustLfo = ctx.createOscillator();
+        gustLfo.frequency.value = 0.21;
+        const gustDepth = ctx.createGain();
+        gustDepth.gain.value = 0.3;
+        gustLfo.connect(gustDepth);
+        gustDepth.connect(gustGain.gain);
+
+        const windGain = ctx.createGain();
+        windGain.gain.value = 0;
+        windGainRef.current = windGain;
+
+        windSrc.connect(windFilter);
+        windFilter.connect(gustGain);
+        gustGain.connect(windGain);
+        windGain.connect(masterGain);
+        windSrc.start();
+        pitchLfo.start();
+        gustLfo.start();
+
         // --- RADIO SYSTEM SETUP ---
         const radioMaster = ctx.createGain();
         radioMaster.gain.value = 0;
-        radioMaster.connect(masterGain);
         radioMasterGainRef.current = radioMaster;
 
+        // Reception dulls inside tunnels
+        const radioMuffle = ctx.createBiquadFilter();
+        radioMuffle.type = 'lowpass';
+        radioMuffle.frequency.value = 12000;
+        radioMaster.connect(radioMuffle);
+        radioMuffle.connect(masterGain);
+        radioMuffleRef.current = radioMuffle;
+
         const radioFilter = ctx.createBiquadFilter();
         radioFilter.type = 'bandpass';
         radioFilter.frequency.value = 1000;
@@ -343,7 +776,25 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
         musicGain.connect(radioFilter);
         radioMusicGainRef.current = musicGain;
 
-        startProceduralRadio(ctx, musicGain);
+        startProceduralRadio(ctx, musicGain, createRng(`${seed}:radio`));
+
+        // Safety device whistle: a shrill pneumatic tone, silent until a warning
+        const whistleGain = ctx.createGain();
+        whistleGain.gain.value = 0;
+        const whistleFilter = ctx.createBiquadFilter();
+        whistleFilter.type = 'bandpass';
+        whistleFilter.frequency.value = 2500;
+        whistleFilter.Q.value = 4;
+        [2480, 2530].forEach(freq => {
+            const osc = ctx.createOscillator();
+            osc.type = 'triangle';
+            osc.frequency.value = freq;
+            osc.connect(whistleFilter);
+            osc.start();
+        });
+        whistleFilter.connect(whistleGain);
+        whistleGain.connect(masterGain);
+        safetyWhistleGainRef.current = whistleGain;
       }
 
       if (audioCtxRef.current.state === 'suspended') {
@@ -402,17 +853,19 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
 
   }, [radioOn, radioFreq, radioVol, audioEnabled]);
 
-  // Handle Rain Audio Volume
+  // Handle Rain & Wind Audio Volume
   useEffect(() => {
-    if (rainGainRef.current && audioCtxRef.current) {
+    if (rainGainRef.current && windGainRef.current && audioCtxRef.current) {
         const t = audioCtxRef.current.currentTime;
-        const targetVol = weather === 'rain' ? 0.35 : (weather === 'snow' ? 0.05 : 0);
-        rainGainRef.current.gain.setTargetAtTime(targetVol, t, 1.5);
+        const rainLevels: Partial<Record<Weather, number>> = { rain: 0.35, thunderstorm: 0.5, sleet: 0.25, snow: 0.05, blizzard: 0.1 };
+        const windLevels: Partial<Record<Weather, number>> = { thunderstorm: 0.2, sleet: 0.12, snow: 0.04, blizzard: 0.5 };
+        rainGainRef.current.gain.setTargetAtTime(rainLevels[weather] ?? 0, t, 1.5);
+        windGainRef.current.gain.setTargetAtTime(windLevels[weather] ?? 0, t, 2.0);
     }
-  }, [weather]);
+  }, [weather, audioEnabled]);
 
   // --- Procedural Radio ---
-  const startProceduralRadio = (ctx: AudioContext, output: GainNode) => {
+  const startProceduralRadio = (ctx: AudioContext, output: GainNode, rng: Rng) => {
       const scale = [220.00, 246.94, 261.63, 293.66, 329.63, 349.23, 392.00]; 
       const bassProgression = [55.00, 43.65, 65.41, 49.00]; 
       let step = 0;
@@ -440,7 +893,7 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
          const filter = ctx.createBiquadFilter();
          osc.type = type;
          osc.frequency.value = freq;
-         osc.detune.value = (Math.random() - 0.5) * 15; 
+         osc.detune.value = (rng() - 0.5) * 15; 
          filter.type = 'lowpass';
          filter.frequency.value = isBass ? 400 : 2000;
          filter.Q.value = 2;
@@ -482,9 +935,9 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
             const bassNote = bassProgression[(bar % 4)];
             playNote(bassNote, 'sawtooth', beatTime * 8, 0.3, true);
          }
-         if (Math.random() > 0.4) {
-             const note = scale[Math.floor(Math.random() * scale.length)];
-             const oct = Math.random() > 0.5 ? 1 : 2;
+         if (rng() > 0.4) {
+             const note = scale[Math.floor(rng() * scale.length)];
+             const oct = rng() > 0.5 ? 1 : 2;
              playNote(note * oct, 'square', beatTime, 0.05, false);
          }
          if (step % 4 === 0) {
@@ -560,10 +1013,36 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
         src.start(time);
         src.stop(time + 0.15);
       };
+
+      // Hollow boom of the steel girders ringing under the wheels
+      const createDrum = (time: number, vol: number) => {
+        const osc = ctx.createOscillator();
+        osc.type = 'sine';
+        osc.frequency.setValueAtTime(75, time);
+        osc.frequency.exponentialRampToValueAtTime(48, time + 0.3);
+        const ring = ctx.createBiquadFilter();
+        ring.type = 'bandpass';
+        ring.frequency.value = 190;
+        ring.Q.value = 6;
+        const gain = ctx.createGain();
+        gain.gain.setValueAtTime(0, time);
+        gain.gain.linearRampToValueAtTime(vol, time + 0.02);
+        gain.gain.exponentialRampToValueAtTime(0.01, time + 0.45);
+        osc.connect(gain);
+        osc.connect(ring);
+        ring.connect(gain);
+        gain.connect(master);
+        osc.start(time);
+        osc.stop(time + 0.5);
+      };
       
       const volScale = Math.min(1.0, 0.2 + speedRatio * 0.3);
       createHit(t, 0.4 * volScale);
       createHit(t + 0.14 / speedRatio, 0.3 * volScale);
+      if (onBridgeRef.current) {
+          createDrum(t, 0.5 * volScale);
+          createDrum(t + 0.14 / speedRatio, 0.4 * volScale);
+      }
       
       const baseDelay = 1600;
       const nextDelay = (baseDelay / speedRatio) + (Math.random() * 200);
@@ -579,6 +1058,11 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
     const container = containerRef.current;
     if (!container) return;
 
+    // Independent streams so that e.g. sign timing never shifts the scenery layout
+    const worldRng = createRng(`${seed}:world`);
+    const signRng = createRng(`${seed}:signs`);
+    const trafficRng = createRng(`${seed}:traffic`);
+
     const width = container.clientWidth || window.innerWidth;
     const height = container.clientHeight || window.innerHeight;
 
@@ -594,9 +1078,12 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
     camera.lookAt(0, 1.0, -10);
 
     const renderer = new THREE.WebGLRenderer({ antialias: true });
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+    renderer.setPixelRatio(Math.min(window.devicePixelRatio, QUALITY_SETTINGS[qualityRef.current].pixelRatio));
     renderer.setSize(width, height);
-    renderer.shadowMap.enabled = false; 
+    // Shadows are switched on by the quality tier in the render loop
+    renderer.shadowMap.enabled = false;
+    renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+    renderer.shadowMap.autoUpdate = false;
     container.appendChild(renderer.domElement);
 
     // --- Lighting ---
@@ -605,15 +1092,31 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
     ambientLightRef.current = ambient;
 
     const dir = new THREE.DirectionalLight(envTargets.current.dirColor, envTargets.current.dirIntensity);
-    dir.position.set(-20, 30, 10);
+    dir.position.copy(envTargets.current.dirPosition);
+    dir.shadow.bias = -0.0005;
+    dir.shadow.normalBias = 0.03;
+    dir.shadow.camera.near = 1;
+    dir.shadow.camera.far = 160;
     scene.add(dir);
+    scene.add(dir.target);
     dirLightRef.current = dir;
+    // Where the sun sits relative to the patch of line its shadow map covers
+    const sunOffset = envTargets.current.dirPosition.clone();
+
+    // Lightning: dark until a strike, repositioned for each one
+    const lightning = new THREE.DirectionalLight(0xc8d4ff, 0);
+    scene.add(lightning);
 
     const interiorLight = new THREE.PointLight(envTargets.current.interiorColor, envTargets.current.interiorIntensity, 5);
     interiorLight.position.set(0, 2, 1);
     scene.add(interiorLight);
     interiorLightRef.current = interiorLight;
 
+    // Pantograph arcing on an iced wire: a blue-white flash over the cab roof
+    const arcLight = new THREE.PointLight(0xaaccff, 0, 30);
+    arcLight.position.set(0, 4.5, 1.5);
+    scene.add(arcLight);
+
     // --- Interior ---
     const interior = new THREE.Group();
     scene.add(interior);
@@ -630,7 +1133,7 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
     const windowGroup = new THREE.Group();
     const frameMaterial = new THREE.MeshStandardMaterial({ color: 0x1a1a1a, roughness: 0.7, metalness: 0.3 });
     const frameWidth = 2.4; 
-    const frameHeight = 1.15;
+    const frameHeight = GLASS_HEIGHT;
     const frameThickness = 0.12; 
     const frameDepth = 0.1;
     
@@ -638,17 +1141,106 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
     const horizontalGeo = new THREE.BoxGeometry(frameWidth, 0.08, frameDepth);
     
     const leftFrame = new THREE.Mesh(verticalGeo, frameMaterial);
-    leftFrame.position.set(-frameWidth / 2 + 0.2, 1.2, -0.6); 
+    leftFrame.position.set(-GLASS_WIDTH / 2, 1.2, -0.6); 
     
     const rightFrame = leftFrame.clone();
-    rightFrame.position.x = frameWidth / 2 - 0.2;
+    rightFrame.position.x = GLASS_WIDTH / 2;
     
     const topFrame = new THREE.Mesh(horizontalGeo, frameMaterial);
     topFrame.position.set(0, 1.2 + frameHeight / 2, -0.6);
     
-    // Glass
-    const glassGeo = new THREE.PlaneGeometry(frameWidth - 0.4, frameHeight);
-    const glassMat = new THREE.MeshStandardMaterial({ color: 0x88ccff, transparent: true, opacity: 0.15, roughness: 0.1, metalness: 0.6, side: THREE.DoubleSide });
+    // Glass - a shader over the simulated windscreen surface. Where it is wet, misted
+    // or frosted it shows a copy of the scene (rendered without the glass) refracted
+    // or scattered.
+    const windscreen = createWindscreen();
+    const windscreenTex = new THREE.DataTexture(windscreen.data, windscreen.width, windscreen.height, THREE.RGBAFormat);
+    windscreenTex.magFilter = THREE.LinearFilter;
+    windscreenTex.minFilter = THREE.LinearFilter;
+    windscreenTex.needsUpdate = true;
+    const bufferSize = renderer.getDrawingBufferSize(new THREE.Vector2());
+    const behindGlass = new THREE.WebGLRenderTarget(Math.ceil(bufferSize.x / 2), Math.ceil(bufferSize.y / 2));
+    let behindGlassAge = 0;
+
+    const glassGeo = new THREE.PlaneGeometry(GLASS_WIDTH, GLASS_HEIGHT);
+    const glassMat = new THREE.ShaderMaterial({
+        uniforms: {
+            uScreen: { value: windscreenTex },
+            uScene: { value: behindGlass.texture },
+            uResolution: { value: bufferSize.clone() },
+            uTexel: { value: new THREE.Vector2(1 / windscreen.width, 1 / windscreen.height) },
+            uTint: { value: new THREE.Color(0x88ccff) },
+            uLight: { value: 0.5 },
+        },
+        vertexShader: `
+            varying vec2 vUv;
+            void main() {
+                vUv = uv;
+                gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+            }
+        `,
+        fragmentShader: `
+            uniform sampler2D uScreen;
+            uniform sampler2D uScene;
+            uniform vec2 uResolution;
+            uniform vec2 uTexel;
+            uniform vec3 uTint;
+            uniform float uLight;
+            varying vec2 vUv;
+
+            void main() {
+                vec4 surface = texture2D(uScreen, vUv);
+                float h = surface.r;
+                float hx = texture2D(uScreen, vUv + vec2(uTexel.x, 0.0)).r - texture2D(uScreen, vUv - vec2(uTexel.x, 0.0)).r;
+                float hy = texture2D(uScreen, vUv + vec2(0.0, uTexel.y)).r - texture2D(uScreen, vUv - vec2(0.0, uTexel.y)).r;
+                vec2 screenUv = gl_FragCoord.xy / uResolution;
+
+                // Each drop is a small lens: it bends (and flips) the view behind it
+                vec3 lens = texture2D(uScene, screenUv - vec2(hx, hy) * 0.06 - h * 0.015).rgb;
+                // Thin films and trails only smear it
+                vec2 spread = vec2(0.006, 0.004);
+                vec3 smear = (texture2D(uScene, screenUv + spread).rgb + texture2D(uScene, screenUv - spread).rgb
+                    + texture2D(uScene, screenUv + vec2(spread.x, -spread.y)).rgb + texture2D(uScene, screenUv + vec2(-spread.x, spread.y)).rgb) * 0.25;
+                vec3 wet = mix(smear, lens, smoothstep(0.3, 0.6, h));
+                // Glint on the upper rim of each drop
+                wet += vec3(0.6) * uLight * pow(clamp(-hy * 2.5, 0.0, 1.0), 3.0);
+
+                float waterAlpha = smoothstep(0.03, 0.25, h);
+                float snow = smoothstep(0.15, 0.6, surface.g);
+                vec3 snowColor = vec3(0.88, 0.91, 0.95) * clamp(uLight * 1.4, 0.08, 1.0);
+
+                // Mist scatters the view into a milky blur
+                float mist = smoothstep(0.05, 0.8, surface.a) * 0.9;
+                vec2 haze = vec2(0.03, 0.02);
+                vec3 blurred = (smear + texture2D(uScene, screenUv + haze).rgb + texture2D(uScene, screenUv - haze).rgb
+                    + texture2D(uScene, screenUv + vec2(haze.x, -haze.y)).rgb + texture2D(uScene, screenUv + vec2(-haze.x, haze.y)).rgb) * 0.2;
+                vec3 mistColor = mix(blurred, vec3(0.62, 0.66, 0.7) * uLight, 0.4);
+
+                // Frost: feathery crystals with the odd glittering facet
+                float frost = smoothstep(0.1, 0.7, surface.b);
+                float facet = step(0.985, fract(sin(dot(floor(vUv * vec2(420.0, 240.0)), vec2(12.9898, 78.233))) * 43758.5453));
+                vec3 frostColor = vec3(0.8, 0.87, 0.95) * clamp(uLight * 1.3, 0.08, 1.0) + facet * 0.4 * uLight;
+                frost *= 0.8 + 0.2 * facet;
+
+                // Layer water, mist, frost and snow front to back over the tinted pane
+                vec3 col = wet * waterAlpha;
+                float alpha = waterAlpha;
+                col = mistColor * mist + col * (1.0 - mist);
+                alpha = mist + alpha * (1.0 - mist);
+                col = frostColor * frost + col * (1.0 - frost);
+                alpha = frost + alpha * (1.0 - frost);
+                col = snowColor * snow + col * (1.0 - snow);
+                alpha = snow + alpha * (1.0 - snow);
+                col += uTint * uLight * 0.15 * (1.0 - alpha);
+                alpha += 0.15 * (1.0 - alpha);
+                gl_FragColor = vec4(col / alpha, alpha);
+                #include <tonemapping_fragment>
+                #include <colorspace_fragment>
+            }
+        `,
+        transparent: true,
+        depthWrite: false,
+        side: THREE.DoubleSide,
+    });
     const glass = new THREE.Mesh(glassGeo, glassMat);
     glass.position.set(0, 1.2, -0.6);
     
@@ -824,11 +1416,44 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
 
     createGauge(-0.4, "KM/H", [0, 120], true, 12); 
     createGauge(0, "ATM", [0, 10], true, 10);      
-    createGauge(0.4, "V", [0, 250], false, 10);     
+    createGauge(0.4, "KV", [0, 4], false, 8);     
+    createGauge(-0.8, "TTS", [0, 6], true, 12);
+    createGauge(1.1, "A", [0, 800], true, 8);
+
+    // Cab signal unit beside the gauges. Lenses top to bottom: green, yellow,
+    // yellow-over-red, red and the white one, which this line never codes
+    const cabSignalLenses: Record<CabSignal, THREE.MeshStandardMaterial[]> = { green: [], yellow: [], yellowRed: [], red: [] };
+    {
+        const group = new THREE.Group();
+        group.position.set(0.75, 0.98, -0.45);
+        group.rotation.x = -Math.PI / 4;
+        const housing = new THREE.Mesh(
+            new THREE.BoxGeometry(0.1, 0.34, 0.05),
+            new THREE.MeshStandardMaterial({ color: 0x111111, metalness: 0.6, roughness: 0.4 })
+        );
+        group.add(housing);
+        const lens = (color: number, y: number, thetaStart = 0, thetaLength = Math.PI * 2) => {
+            const mat = new THREE.MeshStandardMaterial({ color: 0x111111, emissive: color, emissiveIntensity: 0.05, roughness: 0.3 });
+            const mesh = new THREE.Mesh(new THREE.CircleGeometry(0.022, 20, thetaStart, thetaLength), mat);
+            mesh.position.set(0, y, 0.026);
+            group.add(mesh);
+            return mat;
+        };
+        cabSignalLenses.green.push(lens(0x33ff66, 0.13));
+        cabSignalLenses.yellow.push(lens(0xffcc22, 0.065));
+        cabSignalLenses.yellowRed.push(lens(0xffcc22, 0, 0, Math.PI), lens(0xff2211, 0, Math.PI, Math.PI));
+        cabSignalLenses.red.push(lens(0xff2211, -0.065));
+        lens(0xe8eef2, -0.13);
+        interior.add(group);
+    }
+
+    function showCabSignal(code: CabSignal) {
+        CAB_SIGNALS.forEach(c => cabSignalLenses[c].forEach(mat => { mat.emissiveIntensity = c === code ? 3 : 0.05; }));
+    }
 
     // Wiper
     const wiperGroup = new THREE.Group();
-    wiperGroup.position.set(0, 1.2 - frameHeight/2 + 0.1, -0.62); 
+    wiperGroup.position.set(0, 1.2 + WIPER_PIVOT_Y, -0.62); 
     const wiperArmGeo = new THREE.BoxGeometry(0.02, 0.7, 0.02); 
     const wiperMat = new THREE.MeshStandardMaterial({ color: 0x111111, metalness: 0.8, roughness: 0.2 });
     const wiperArm = new THREE.Mesh(wiperArmGeo, wiperMat);
@@ -846,45 +1471,160 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
     interior.add(wiperGroup);
     wiperPivotRef.current = wiperGroup;
 
-    // --- Rain System ---
-    const rainCount = 1500;
+    // --- Precipitation ---
+    // Drops and flakes live in a box in front of the cab and are moved entirely in
+    // the vertex shader: each frame only advances the fall, wind drift and train
+    // travel offsets, and every particle wraps its seeded start point through the box
+    const precipRng = createRng(`${seed}:precipitation`);
+    const precipFog = THREE.UniformsLib.fog;
+
+    // --- Rain: streaks drawn along each drop's velocity relative to the cab, so
+    // they stretch into long slanted lines as the train picks up speed ---
+    const rainCount = 24000;
+    const rainBox = new THREE.Vector3(16, 8, 20);
     const rainGeo = new THREE.BufferGeometry();
-    const rainPos = new Float32Array(rainCount * 3);
+    const rainSeeds = new Float32Array(rainCount * 2 * 4);
+    const rainTail = new Float32Array(rainCount * 2);
     for(let i=0; i<rainCount; i++) {
-        rainPos[i*3] = (Math.random() - 0.5) * 10;
-        rainPos[i*3+1] = Math.random() * 5;
-        rainPos[i*3+2] = -1 - Math.random() * 5;
+        const sx = precipRng(), sy = precipRng(), sz = precipRng(), sw = precipRng();
+        for (let end = 0; end < 2; end++) {
+            rainSeeds.set([sx, sy, sz, sw], (i * 2 + end) * 4);
+            rainTail[i * 2 + end] = end;
+        }
     }
-    rainGeo.setAttribute('position', new THREE.BufferAttribute(rainPos, 3));
-    const rainMat = new THREE.PointsMaterial({
-        color: 0xaaaaaa, size: 0.03, transparent: true, opacity: 0, blending: THREE.AdditiveBlending
+    rainGeo.setAttribute('position', new THREE.BufferAttribute(new Float32Array(rainCount * 2 * 3), 3));
+    rainGeo.setAttribute('aSeed', new THREE.BufferAttribute(rainSeeds, 4));
+    rainGeo.setAttribute('aTail', new THREE.BufferAttribute(rainTail, 1));
+    const rainMat = new THREE.ShaderMaterial({
+        uniforms: THREE.UniformsUtils.merge([precipFog, {
+            uBox: { value: rainBox },
+            uOffset: { value: new THREE.Vector3() },
+            uVelocity: { value: new THREE.Vector3(0, -20, 0) },
+            uColor: { value: new THREE.Color(0xaaaaaa) },
+            uOpacity: { value: 0 },
+        }]),
+        vertexShader: `
+            attribute vec4 aSeed;
+            attribute float aTail;
+            uniform vec3 uBox;
+            uniform vec3 uOffset;
+            uniform vec3 uVelocity;
+            varying float vAlpha;
+            #include <fog_pars_vertex>
+            void main() {
+                // Wrap the seeded start point through the box, which spans
+                // x -w/2..w/2, y -2..h-2 and z -1 back to -1-d in front of the glass
+                vec3 p = mod(aSeed.xyz * uBox + uOffset, uBox);
+                p = p - vec3(uBox.x * 0.5, 2.0, uBox.z + 1.0);
+                // Fade in and out at the box faces so wrapping never pops
+                vAlpha = smoothstep(0.0, 1.5, p.y + 2.0) * smoothstep(0.0, 1.5, uBox.y - 2.0 - p.y)
+                    * smoothstep(0.0, 3.0, p.z + uBox.z + 1.0) * smoothstep(0.0, 0.6, -1.0 - p.z);
+                vAlpha *= (0.4 + aSeed.w * 0.6) * (1.0 - aTail);
+                // The tail trails one motion-blur interval behind the head
+                p -= uVelocity * aTail * (0.02 + aSeed.w * 0.015);
+                vec4 mvPosition = modelViewMatrix * vec4(p, 1.0);
+                gl_Position = projectionMatrix * mvPosition;
+                #include <fog_vertex>
+            }
+        `,
+        fragmentShader: `
+            uniform vec3 uColor;
+            uniform float uOpacity;
+            varying float vAlpha;
+            #include <fog_pars_fragment>
+            void main() {
+                gl_FragColor = vec4(uColor, vAlpha * uOpacity);
+                #include <fog_fragment>
+            }
+        `,
+        transparent: true,
+        depthWrite: false,
+        blending: THREE.AdditiveBlending,
+        fog: true,
     });
-    const rainSystem = new THREE.Points(rainGeo, rainMat);
+    const rainSystem = new THREE.LineSegments(rainGeo, rainMat);
+    rainSystem.frustumCulled = false;
     scene.add(rainSystem);
     rainSystemRef.current = rainSystem;
 
-    // --- Snow System ---
-    const snowCount = 2000;
+    // --- Snow: flutter on their own, then the air shoved aside by the cab nose
+    // carries them out and round in an eddy before they reach the glass ---
+    const snowCount = 30000;
+    const snowBox = new THREE.Vector3(24, 12, 30);
     const snowGeo = new THREE.BufferGeometry();
-    const snowPos = new Float32Array(snowCount * 3);
-    for(let i=0; i<snowCount; i++) {
-        snowPos[i*3] = (Math.random() - 0.5) * 15;
-        snowPos[i*3+1] = Math.random() * 8;
-        snowPos[i*3+2] = -2 - Math.random() * 8;
-    }
-    snowGeo.setAttribute('position', new THREE.BufferAttribute(snowPos, 3));
-    const snowMat = new THREE.PointsMaterial({
-        color: 0xffffff, size: 0.04, transparent: true, opacity: 0, 
-        map: (() => {
-            const canvas = document.createElement('canvas');
-            canvas.width = 32; canvas.height = 32;
-            const context = canvas.getContext('2d');
-            if(context) { context.fillStyle = 'white'; context.beginPath(); context.arc(16, 16, 14, 0, Math.PI * 2); context.fill(); }
-            return new THREE.CanvasTexture(canvas);
-        })(),
-        sizeAttenuation: true
+    const snowSeeds = new Float32Array(snowCount * 4);
+    for(let i=0; i<snowCount * 4; i++) snowSeeds[i] = precipRng();
+    snowGeo.setAttribute('position', new THREE.BufferAttribute(new Float32Array(snowCount * 3), 3));
+    snowGeo.setAttribute('aSeed', new THREE.BufferAttribute(snowSeeds, 4));
+    const snowMat = new THREE.ShaderMaterial({
+        uniforms: THREE.UniformsUtils.merge([precipFog, {
+            uBox: { value: snowBox },
+            uOffset: { value: new THREE.Vector3() },
+            uTime: { value: 0 },
+            uGust: { value: 0 },
+            uRush: { value: 0 },
+            uNose: { value: new THREE.Vector3(0, 1.2, -0.6) },
+            uSize: { value: 0.04 },
+            uScale: { value: bufferSize.y / 2 },
+            uOpacity: { value: 0 },
+        }]),
+        vertexShader: `
+            attribute vec4 aSeed;
+            uniform vec3 uBox;
+            uniform vec3 uOffset;
+            uniform float uTime;
+            uniform float uGust;
+            uniform float uRush;
+            uniform vec3 uNose;
+            uniform float uSize;
+            uniform float uScale;
+            varying float vAlpha;
+            #include <fog_pars_vertex>
+            void main() {
+                vec3 p = mod(aSeed.xyz * uBox + uOffset, uBox);
+                p = p - vec3(uBox.x * 0.5, 2.0, uBox.z + 1.0);
+                vAlpha = smoothstep(0.0, 1.0, p.y + 2.0) * smoothstep(0.0, 1.0, uBox.y - 2.0 - p.y)
+                    * smoothstep(0.0, 4.0, p.z + uBox.z + 1.0) * smoothstep(0.0, 0.3, -1.0 - p.z);
+
+                // Each flake tumbles on its own slow loop, livelier in a gust
+                float phase = aSeed.w * 6.2832;
+                p.x += sin(uTime * (0.8 + aSeed.w) + phase) * (0.12 + uGust * 0.2);
+                p.y += sin(uTime * 1.7 + phase * 3.0) * 0.05 * (1.0 + uGust);
+                p.z += cos(uTime * 0.5 + phase) * 0.1;
+
+                // Close to the nose the airflow pushes flakes outwards and spins
+                // them round it; the faster the train, the stronger the eddy
+                vec3 r = p - uNose;
+                float near = exp(r.z / 2.5 - length(r.xy) / 3.0) * uRush;
+                float spin = near * (1.5 + sin(uTime * 2.0 + phase) * 0.6);
+                float c = cos(spin), s = sin(spin);
+                r.xy = mat2(c, s, -s, c) * r.xy * (1.0 + near * 0.5);
+                r.y += near * 0.4;
+                p = uNose + r;
+
+                vec4 mvPosition = modelViewMatrix * vec4(p, 1.0);
+                gl_Position = projectionMatrix * mvPosition;
+                gl_PointSize = uSize * (0.6 + aSeed.w * 0.8) * uScale / -mvPosition.z;
+                #include <fog_vertex>
+            }
+        `,
+        fragmentShader: `
+            uniform float uOpacity;
+            varying float vAlpha;
+            #include <fog_pars_fragment>
+            void main() {
+                float d = length(gl_PointCoord - 0.5);
+                if (d > 0.5) discard;
+                gl_FragColor = vec4(vec3(1.0), smoothstep(0.5, 0.3, d) * vAlpha * uOpacity);
+                #include <fog_fragment>
+            }
+        `,
+        transparent: true,
+        depthWrite: false,
+        fog: true,
     });
     const snowSystem = new THREE.Points(snowGeo, snowMat);
+    snowSystem.frustumCulled = false;
     scene.add(snowSystem);
     snowSystemRef.current = snowSystem;
 
@@ -892,13 +1632,16 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
     const starCount = 400;
     const starGeo = new THREE.BufferGeometry();
     const starPos = new Float32Array(starCount * 3);
+    let starReach = 0;
     for(let i=0; i<starCount; i++) {
-      starPos[i*3] = (Math.random() - 0.5) * 200;
-      starPos[i*3+1] = Math.random() * 50 + 10; 
-      starPos[i*3+2] = -50 - Math.random() * 100;
+      starPos[i*3] = (worldRng() - 0.5) * 200;
+      starPos[i*3+1] = worldRng() * 50 + 10; 
+      starPos[i*3+2] = -50 - worldRng() * 100;
+      starReach = Math.max(starReach, Math.hypot(starPos[i*3], starPos[i*3+1], starPos[i*3+2]));
     }
     starGeo.setAttribute('position', new THREE.BufferAttribute(starPos, 3));
-    const starsMat = new THREE.PointsMaterial({ color: 0xffffff, size: 0.3, transparent: true, opacity: 0, sizeAttenuation: true });
+    const starSize = 0.3;
+    const starsMat = new THREE.PointsMaterial({ color: 0xffffff, size: starSize, transparent: true, opacity: 0, sizeAttenuation: true });
     const stars = new THREE.Points(starGeo, starsMat);
     scene.add(stars);
     starsRef.current = stars;
@@ -907,34 +1650,192 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
     const world = new THREE.Group();
     scene.add(world);
 
-    // Ground
-    const groundGeo = new THREE.PlaneGeometry(200, 120);
+    // The train stays at the origin; the world group carries the inverse of
+    // the train's pose on the track spline so everything else bends past it.
+    const track = createTrackProfile(seed, routeRef.current);
+    const trainSample: TrackSample = track.sample(0);
+    const placeSample: TrackSample = track.sample(0);
+    const trainQuat = new THREE.Quaternion();
+    const trainEuler = new THREE.Euler(0, 0, 0, 'YXZ');
+
+    // Ground - one tile per scenery chunk, laid along the spline. Tiles share a
+    // material, so the environment fades all of them through the first one.
     const groundMat = new THREE.MeshStandardMaterial({ color: 0x383a38, roughness: 1.0 });
-    const ground = new THREE.Mesh(groundGeo, groundMat);
-    ground.rotation.x = -Math.PI / 2;
-    ground.position.set(0, -0.1, -60);
-    world.add(ground);
-    groundRef.current = ground;
+    const groundPool: THREE.Mesh[] = [];
+
+    // Bridges span a valley, so the ground sinks away beneath them
+    function getGroundDip(s: number) {
+        const st = track.structureAt(s);
+        if (!st || st.kind !== 'bridge') return 0;
+        const u = (s - st.start) / (st.end - st.start);
+        return st.height * THREE.MathUtils.smoothstep(u, 0, 0.25) * THREE.MathUtils.smoothstep(1 - u, 0, 0.25);
+    }
+
+    function createGroundTile() {
+        const geo = new THREE.PlaneGeometry(GROUND_HALF_WIDTH * 2, CHUNK_LENGTH, GROUND_COLUMNS, CHUNK_LENGTH / GROUND_STEP);
+        geo.rotateX(-Math.PI / 2);
+        const tile = new THREE.Mesh(geo, groundMat);
+        tile.receiveShadow = true;
+        return tile;
+    }
+    groundPool.push(createGroundTile());
+    groundRef.current = groundPool[0];
+
+    // Rows run from the far end of the chunk (s0 + CHUNK_LENGTH) back to s0,
+    // matching the plane's vertex order so the faces stay upward
+    function layGroundTile(tile: THREE.Mesh, s0: number) {
+        const origin = track.sample(s0, placeSample);
+        tile.position.set(origin.x, origin.y - 0.1, origin.z);
+        const ox = origin.x;
+        const oy = origin.y;
+        const oz = origin.z;
+        const pos = tile.geometry.attributes.position;
+        const rows = CHUNK_LENGTH / GROUND_STEP;
+        for (let r = 0; r <= rows; r++) {
+            const s = s0 + CHUNK_LENGTH - r * GROUND_STEP;
+            const p = track.sample(s, placeSample);
+            const rx = Math.cos(p.heading);
+            const rz = -Math.sin(p.heading);
+            const h = p.y - getGroundDip(s) - oy;
+            for (let c = 0; c <= GROUND_COLUMNS; c++) {
+                const lat = -GROUND_HALF_WIDTH + (c / GROUND_COLUMNS) * GROUND_HALF_WIDTH * 2;
+                pos.setXYZ(r * (GROUND_COLUMNS + 1) + c, p.x + rx * lat - ox, h, p.z + rz * lat - oz);
+            }
+        }
+        pos.needsUpdate = true;
+        tile.geometry.computeVertexNormals();
+        tile.geometry.computeBoundingSphere();
+    }
+
+    // Rails & ballast as strips swept along the spline: left side, top, right side
+    const ribbonSegments = (RIBBON_BEHIND_MAX + RIBBON_AHEAD) / RIBBON_STEP;
+    const trackStrips: THREE.Mesh[] = [];
+
+    function createTrackStrip(lateral: number, halfWidth: number, height: number, mat: THREE.Material) {
+        const geo = new THREE.BufferGeometry();
+        geo.setAttribute('position', new THREE.BufferAttribute(new Float32Array((ribbonSegments + 1) * 4 * 3), 3));
+        const indices: number[] = [];
+        for (let i = 0; i < ribbonSegments; i++) {
+            const a = i * 4;
+            const b = (i + 1) * 4;
+            for (let f = 0; f < 3; f++) {
+                indices.push(a + f, a + f + 1, b + f, a + f + 1, b + f + 1, b + f);
+            }
+        }
+        geo.setIndex(indices);
+        const strip = new THREE.Mesh(geo, mat);
+        strip.frustumCulled = false;
+        strip.receiveShadow = true;
+        strip.userData = { lateral, halfWidth, height };
+        world.add(strip);
+        trackStrips.push(strip);
+        return strip;
+    }
+
+    function updateTrackStrip(strip: THREE.Mesh, s0: number) {
+        const { lateral, halfWidth, height } = strip.userData;
+        strip.position.set(trainSample.x, trainSample.y, trainSample.z);
+        const behind = Math.min(RIBBON_BEHIND_MAX, Math.ceil(viewBehind / RIBBON_STEP) * RIBBON_STEP);
+        const segments = (behind + RIBBON_AHEAD) / RIBBON_STEP;
+        strip.geometry.setDrawRange(0, segments * 18);
+        const pos = strip.geometry.attributes.position;
+        for (let i = 0; i <= segments; i++) {
+            const p = track.sample(s0 - behind + i * RIBBON_STEP, placeSample);
+            const rx = Math.cos(p.heading);
+            const rz = -Math.sin(p.heading);
+            const bank = Math.tan(p.cant);
+            const offsets = [lateral - halfWidth, lateral - halfWidth, lateral + halfWidth, lateral + halfWidth];
+            const heights = [0, height, height, 0];
+            for (let c = 0; c < 4; c++) {
+                const lat = offsets[c];
+                pos.setXYZ(
+                    i * 4 + c,
+                    p.x + rx * lat - trainSample.x,
+                    p.y + heights[c] + lat * bank - trainSample.y,
+                    p.z + rz * lat - trainSample.z
+                );
+            }
+        }
+        pos.needsUpdate = true;
+        strip.geometry.computeVertexNormals();
+    }
 
     const railMat = new THREE.MeshStandardMaterial({ color: 0x555555, metalness: 0.7, roughness: 0.4 });
-    const railGeo = new THREE.BoxGeometry(0.08, 0.1, 150);
-    const leftRail = new THREE.Mesh(railGeo, railMat);
-    leftRail.position.set(-0.6, 0.05, -50);
-    const rightRail = leftRail.clone();
-    rightRail.position.x = 0.6;
-    world.add(leftRail, rightRail);
-    const ballastGeo = new THREE.BoxGeometry(2.8, 0.05, 150);
+    createTrackStrip(-0.6, 0.04, 0.1, railMat);
+    createTrackStrip(0.6, 0.04, 0.1, railMat);
     const ballastMat = new THREE.MeshStandardMaterial({ color: 0x2a2a2a, roughness: 1.0 });
-    const ballast = new THREE.Mesh(ballastGeo, ballastMat);
-    ballast.position.set(0, 0.0, -50);
-    world.add(ballast);
+    createTrackStrip(0, 1.4, 0.025, ballastMat);
+    createTrackStrip(PARALLEL_TRACK_OFFSET - 0.6, 0.04, 0.1, railMat);
+    createTrackStrip(PARALLEL_TRACK_OFFSET + 0.6, 0.04, 0.1, railMat);
+    createTrackStrip(PARALLEL_TRACK_OFFSET, 1.4, 0.025, ballastMat);
 
     // --- Object Generation ---
-    const movingObjects: THREE.Object3D[] = [];
     streetLightsRef.current = [];
-    peopleRef.current = [];
     activeSignsRef.current = [];
     snowCapsRef.current = [];
+    stationWindowMatsRef.current = [];
+
+    // Route state restarts with the world
+    routePosRef.current = 0;
+    stopIndexRef.current = 0;
+    trainStateRef.current = 'running';
+    arrivedIndexRef.current = -1;
+    let spawnedStationIndex = -1;
+    let lastProgressReport = 0;
+
+    // One-off objects (platforms, stations) that scroll past once and are then disposed
+    const transientObjects: THREE.Object3D[] = [];
+
+    // Scenery is anchored to the track as (s, lateral offset) rather than a fixed X/Z
+    function placeOnTrack(obj: THREE.Object3D) {
+        const p = track.sample(obj.userData.trackS, placeSample);
+        const lateral = obj.userData.lateral;
+        obj.position.set(
+            p.x + Math.cos(p.heading) * lateral,
+            p.y + obj.userData.baseY,
+            p.z - Math.sin(p.heading) * lateral
+        );
+        obj.rotation.y = p.heading + obj.userData.baseYaw;
+    }
+
+    // Solid meshes cast and take shadows; see-through ones (snow caps, glass) only take them
+    function enableShadows(root: THREE.Object3D) {
+        root.traverse((obj) => {
+            if (!(obj instanceof THREE.Mesh)) return;
+            const mats = Array.isArray(obj.material) ? obj.material : [obj.material];
+            obj.castShadow = !mats.some((m: THREE.Material) => m.transparent);
+            obj.receiveShadow = true;
+        });
+    }
+
+    // Creators build at a cab-relative spawn point (x = lateral, -z = metres ahead)
+    function anchorToTrack(obj: THREE.Object3D) {
+        obj.userData.trackS = routePosRef.current - obj.position.z;
+        obj.userData.lateral = obj.position.x;
+        obj.userData.baseY = obj.position.y;
+        obj.userData.baseYaw = obj.rotation.y;
+        placeOnTrack(obj);
+        enableShadows(obj);
+        world.add(obj);
+    }
+
+    function addTransientObject(obj: THREE.Object3D) {
+        anchorToTrack(obj);
+        transientObjects.push(obj);
+    }
+
+    function disposeObject(root: THREE.Object3D) {
+        root.traverse((obj) => {
+            if (obj instanceof THREE.Mesh) {
+                obj.geometry.dispose();
+                const mats = Array.isArray(obj.material) ? obj.material : [obj.material];
+                mats.forEach((m: THREE.Material) => {
+                    if ((m as THREE.MeshStandardMaterial).map) (m as THREE.MeshStandardMaterial).map!.dispose();
+                    m.dispose();
+                });
+            }
+        });
+    }
 
     const graffitiColors = [0x884444, 0x448844, 0x444488, 0xccccaa, 0x222222];
 
@@ -989,255 +1890,2161 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
         group.position.set(2.5, 0, z); 
         group.rotation.y = -Math.PI / 8; 
         
-        world.add(group);
-        movingObjects.push(group);
+        addTransientObject(group);
         activeSignsRef.current.push({ mesh: group, limit, passed: false });
     }
 
-    function createPanelHouse(x: number, z: number) {
-      const group = new THREE.Group();
-      const width = 1.5 + Math.random() * 2.5;
-      const height = 2.5 + Math.random() * 3.5;
-      const depth = 1.0 + Math.random() * 1.0;
-      
-      const geo = new THREE.BoxGeometry(width, height, depth);
-      
-      // Use procedural texture if available
-      let mat: THREE.MeshStandardMaterial;
-      if (buildingTexturesRef.current.length > 0) {
-          const texSet = buildingTexturesRef.current[Math.floor(Math.random() * buildingTexturesRef.current.length)];
-          mat = new THREE.MeshStandardMaterial({ 
-              map: texSet.map,
-              emissiveMap: texSet.emissive,
-              emissive: 0xffffff,
-              emissiveIntensity: 1.0, // Control via light later?
-              roughness: 0.9, 
-              metalness: 0.1 
-          });
-      } else {
-          mat = new THREE.MeshStandardMaterial({ color: 0x70757a, roughness: 0.9 });
-      }
+    // --- Block signals ---
+    // Three-lens heads (yellow, green, red) on a concrete mast, with a lower
+    // yellow on station entry signals and the signal number on a plate below
+    const blocks = createBlockSystem(seed, routeRef.current);
+    const blockSignals: { index: number, mesh: THREE.Group, lenses: Record<'yellow' | 'green' | 'red' | 'lowerYellow', THREE.MeshStandardMaterial | null> }[] = [];
+    let nextSignalIndex = blockAt(routePosRef.current) + 1;
+    let lastBlock = nextSignalIndex - 1;
+    let passedAspect: SignalAspect = 'green';
+    let shownCabSignal: CabSignal = 'green';
+    showCabSignal(shownCabSignal);
+    const signalMastMat = new THREE.MeshStandardMaterial({ color: 0x8a8a86, roughness: 0.9 });
+    const signalHeadMat = new THREE.MeshStandardMaterial({ color: 0x101010, roughness: 0.6 });
+
+    function createBlockSignal(index: number, z: number) {
+        const group = new THREE.Group();
+        const mast = new THREE.Mesh(new THREE.CylinderGeometry(0.12, 0.16, 5.6, 8), signalMastMat);
+        mast.position.y = 2.8;
+        group.add(mast);
+
+        const entry = blocks.isEntrySignal(index);
+        const colors: ['yellow' | 'green' | 'red' | 'lowerYellow', number][] = [['yellow', 0xffbb22], ['green', 0x33ff77], ['red', 0xff2211]];
+        if (entry) colors.push(['lowerYellow', 0xffbb22]);
+        const headHeight = colors.length * 0.42 + 0.16;
+        const headTop = 5.9;
+        const head = new THREE.Mesh(new THREE.BoxGeometry(0.56, headHeight, 0.1), signalHeadMat);
+        head.position.set(0, headTop - headHeight / 2, 0.2);
+        group.add(head);
 
-      const mesh = new THREE.Mesh(geo, mat);
-      mesh.position.y = height / 2;
-      group.add(mesh);
+        const lenses: Record<'yellow' | 'green' | 'red' | 'lowerYellow', THREE.MeshStandardMaterial | null> = { yellow: null, green: null, red: null, lowerYellow: null };
+        colors.forEach(([key, color], i) => {
+            const y = headTop - 0.29 - i * 0.42;
+            const mat = new THREE.MeshStandardMaterial({ color: 0x151515, emissive: color, emissiveIntensity: 0, roughness: 0.2 });
+            const lens = new THREE.Mesh(new THREE.CircleGeometry(0.12, 20), mat);
+            lens.position.set(0, y, 0.26);
+            group.add(lens);
+            const visor = new THREE.Mesh(new THREE.BoxGeometry(0.32, 0.02, 0.22), signalHeadMat);
+            visor.position.set(0, y + 0.15, 0.36);
+            group.add(visor);
+            lenses[key] = mat;
+        });
+
+        // Odd numbers for signals facing our direction
+        const canvas = document.createElement('canvas');
+        canvas.width = 64;
+        canvas.height = 32;
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+            ctx.fillStyle = '#e8e8e0';
+            ctx.fillRect(0, 0, 64, 32);
+            ctx.fillStyle = '#111111';
+            ctx.font = 'bold 24px monospace';
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillText(entry ? 'N' : `${(index * 2 + 1) % 1000}`, 32, 17);
+        }
+        const plate = new THREE.Mesh(
+            new THREE.PlaneGeometry(0.4, 0.2),
+            new THREE.MeshStandardMaterial({ map: new THREE.CanvasTexture(canvas), roughness: 0.7 })
+        );
+        plate.position.set(0, headTop - headHeight - 0.25, 0.2);
+        group.add(plate);
+
+        // Where a platform runs past, the mast stands behind it
+        group.position.set(isInStationZone(routePosRef.current - z) ? 4.6 : 3.2, 0, z);
+        group.rotation.y = -Math.PI / 16;
+        addTransientObject(group);
+        blockSignals.push({ index, mesh: group, lenses });
+    }
+
+    // --- Kilometre posts and pickets ---
+    // A white post with a plate across the line at every kilometre, each face
+    // numbered with the kilometre it looks into, and a low numbered picket post
+    // every 100 m in between. Along a platform the pickets are left out and the
+    // kilometre post stands behind it
+    const markerPostMat = new THREE.MeshStandardMaterial({ color: 0xdcdcd4, roughness: 0.8 });
+    const lineMetreAt = (s: number) => routeRef.current.startKm * 1000 + s;
+    let nextPicket = Math.floor(lineMetreAt(routePosRef.current) / PICKET_SPACING) + 1;
+
+    function createNumberFace(text: string, width: number, height: number) {
+        const canvas = document.createElement('canvas');
+        canvas.width = width * 256;
+        canvas.height = height * 256;
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+            ctx.fillStyle = '#f0f0e8';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            ctx.strokeStyle = '#111111';
+            ctx.lineWidth = 6;
+            ctx.strokeRect(3, 3, canvas.width - 6, canvas.height - 6);
+            ctx.fillStyle = '#111111';
+            ctx.font = `bold ${Math.floor(canvas.height * 0.6)}px monospace`;
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillText(text, canvas.width / 2, canvas.height / 2 + 4);
+        }
+        return new THREE.Mesh(
+            new THREE.PlaneGeometry(width, height),
+            new THREE.MeshStandardMaterial({ map: new THREE.CanvasTexture(canvas), roughness: 0.7 })
+        );
+    }
+
+    function createLineMarker(picket: number, z: number) {
+        const km = Math.floor(picket / 10);
+        const picketInKm = picket % 10;
+        const atPlatform = isInStationZone(routePosRef.current - z);
+        if (atPlatform && picketInKm !== 0) return;
+        const group = new THREE.Group();
+        if (picketInKm === 0) {
+            const post = new THREE.Mesh(new THREE.BoxGeometry(0.14, 1.8, 0.14), markerPostMat);
+            post.position.y = 0.9;
+            group.add(post);
+            const plate = new THREE.Mesh(new THREE.BoxGeometry(0.62, 0.34, 0.03), markerPostMat);
+            plate.position.y = 1.85;
+            group.add(plate);
+            const front = createNumberFace(`${km}`, 0.58, 0.3);
+            front.position.set(0, 1.85, 0.02);
+            group.add(front);
+            const back = createNumberFace(`${km + 1}`, 0.58, 0.3);
+            back.position.set(0, 1.85, -0.02);
+            back.rotation.y = Math.PI;
+            group.add(back);
+        } else {
+            const post = new THREE.Mesh(new THREE.BoxGeometry(0.12, 0.7, 0.12), markerPostMat);
+            post.position.y = 0.35;
+            group.add(post);
+            const face = createNumberFace(`${picketInKm}`, 0.1, 0.12);
+            face.position.set(0, 0.55, 0.061);
+            group.add(face);
+        }
+        group.position.set(atPlatform ? 4.6 : 2.2, 0, z);
+        addTransientObject(group);
+    }
+
+    function showAspect(signal: typeof blockSignals[number], aspect: SignalAspect) {
+        const { yellow, green, red, lowerYellow } = signal.lenses;
+        if (yellow) yellow.emissiveIntensity = aspect === 'yellow' || aspect === 'twoYellow' ? 4 : 0;
+        if (green) green.emissiveIntensity = aspect === 'green' ? 4 : 0;
+        if (red) red.emissiveIntensity = aspect === 'red' ? 4 : 0;
+        if (lowerYellow) lowerYellow.emissiveIntensity = aspect === 'twoYellow' ? 4 : 0;
+    }
+
+    // --- Instanced scenery ---
+    // Every part of every prop kind is an instance in one shared InstancedMesh, so
+    // the roadside costs a couple of dozen draw calls however dense it gets. A prop
+    // is just the list of instance slots it occupies, freed when its chunk goes.
+    const propRoot = new THREE.Matrix4();
+    const partMatrix = new THREE.Matrix4();
+    const partPos = new THREE.Vector3();
+    const partQuat = new THREE.Quaternion();
+    const partEuler = new THREE.Euler();
+    const partScale = new THREE.Vector3();
+    const partColor = new THREE.Color();
+    const hiddenMatrix = new THREE.Matrix4().makeScale(0, 0, 0);
+    const upAxis = new THREE.Vector3(0, 1, 0);
+
+    // Shared materials read one per-instance value: aSnow fades a snow cap, aGlow
+    // scales emissive light, aPhase offsets the idle sway of people and aWindows
+    // seeds which flats of a panel house are home and awake
+    const swayTime = { value: 0 };
+    const windowHour = { value: 12 };
+    const windowDarkness = { value: 0 };
+    const facadePitch = (FACADE_SIZE - FACADE_PAD_X) / FACADE_COLS;
+    const facadeRowPitch = (FACADE_SIZE - FACADE_PAD_Y) / FACADE_ROWS;
+    const windowCell = new THREE.Vector4(facadePitch / FACADE_SIZE, facadeRowPitch / FACADE_SIZE, FACADE_PAD_X / FACADE_SIZE, FACADE_PAD_Y / FACADE_SIZE);
+    const windowAspect = (facadePitch - FACADE_PAD_X) / (facadeRowPitch - FACADE_PAD_Y);
+    function patchInstanced(mat: THREE.MeshStandardMaterial, attribute: InstanceAttribute) {
+        mat.customProgramCacheKey = () => attribute;
+        mat.onBeforeCompile = (shader: THREE.WebGLProgramParametersWithUniforms) => {
+            let vertexHead = `#include <common>\nattribute float ${attribute};\nvarying float vInstanceValue;`;
+            let vertexBody = `#include <begin_vertex>\nvInstanceValue = ${attribute};`;
+            if (attribute === 'aPhase') {
+                shader.uniforms.uSwayTime = swayTime;
+                vertexHead += '\nuniform float uSwayTime;';
+                // Shiver, breathe and rock on the spot, pivoting at the feet
+                vertexBody += `
+                    transformed.xz *= 1.0 + sin(uSwayTime * 10.0 + aPhase) * 0.005;
+                    transformed.y *= 1.0 + sin(uSwayTime * 2.0 + aPhase) * 0.02;
+                    transformed.x += transformed.y * sin(uSwayTime + aPhase) * 0.05;`;
+            }
+            shader.vertexShader = shader.vertexShader
+                .replace('#include <common>', vertexHead)
+                .replace('#include <begin_vertex>', vertexBody);
+            shader.fragmentShader = shader.fragmentShader.replace('#include <common>', '#include <common>\nvarying float vInstanceValue;');
+            if (attribute === 'aSnow') {
+                shader.fragmentShader = shader.fragmentShader.replace('#include <color_fragment>', '#include <color_fragment>\ndiffuseColor.a *= vInstanceValue;');
+            } else if (attribute === 'aGlow') {
+                shader.fragmentShader = shader.fragmentShader.replace('#include <emissivemap_fragment>', '#include <emissivemap_fragment>\ntotalEmissiveRadiance *= vInstanceValue;');
+            } else if (attribute === 'aWindows') {
+                shader.uniforms.uSwayTime = swayTime;
+                shader.uniforms.uWindowHour = windowHour;
+                shader.uniforms.uWindowDarkness = windowDarkness;
+                shader.uniforms.uWindowCell = { value: windowCell };
+                shader.fragmentShader = shader.fragmentShader
+                    .replace('varying float vInstanceValue;', `varying float vInstanceValue;
+                        uniform float uSwayTime;
+                        uniform float uWindowHour;
+                        uniform float uWindowDarkness;
+                        uniform vec4 uWindowCell;
+                        float windowHash(vec2 p) {
+                            return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+                        }`)
+                    .replace('#include <emissivemap_fragment>', `#include <emissivemap_fragment>
+                        // Find this texel's window in the facade grid (canvas y runs down)
+                        vec2 facadeUv = vec2(vEmissiveMapUv.x, 1.0 - vEmissiveMapUv.y);
+                        vec2 cellPos = (facadeUv - uWindowCell.zw * 0.5) / uWindowCell.xy;
+                        vec2 cell = floor(cellPos);
+                        vec2 pane = (fract(cellPos) * uWindowCell.xy - uWindowCell.zw * 0.5) / (uWindowCell.xy - uWindowCell.zw);
+                        float house = vInstanceValue * 113.0;
+                        float h1 = windowHash(cell + house);
+                        float h2 = windowHash(cell + house + 17.0);
+                        float h3 = windowHash(cell + house + 31.0);
+
+                        // Each flat is home or not, switches on somewhere in the dusk,
+                        // goes to bed between 22:30 and 03:00, and some rise before dawn
+                        float occupied = step(h1, 0.35 + fract(house) * 0.5);
+                        float sinceNoon = mod(uWindowHour - 12.0, 24.0);
+                        float evening = step(sinceNoon, 10.5 + h2 * 4.5);
+                        float morning = step(17.0 + h3 * 2.5, sinceNoon) * step(0.6, h2);
+                        float lit = occupied * max(evening, morning) * step(0.1 + h3 * 0.7, uWindowDarkness);
+
+                        // Warm bulbs, and here and there the blue of a television
+                        vec3 lamp = mix(vec3(1.0, 0.5, 0.12), vec3(1.0, 0.82, 0.45), h2);
+                        float tv = step(0.88, fract(h1 * 13.7));
+                        float flicker = 0.55 + 0.45 * windowHash(cell + house + floor(uSwayTime * 6.0 + h2 * 10.0));
+                        lamp = mix(lamp, vec3(0.35, 0.5, 1.0) * flicker, tv);
+
+                        // Now and then somebody stands at the window for a while
+                        float visit = floor(uSwayTime / 25.0 + h3 * 7.0);
+                        float present = step(0.93, windowHash(cell + house + visit));
+                        vec2 figure = vec2((pane.x - 0.5 - sin(uSwayTime * 0.4 + h1 * 6.28) * 0.2) * ${windowAspect.toFixed(3)}, 1.0 - pane.y);
+                        float head = 1.0 - smoothstep(0.12, 0.15, length(figure - vec2(0.0, 0.62)));
+                        float body = (1.0 - smoothstep(0.24, 0.3, abs(figure.x))) * step(figure.y, 0.45);
+                        lamp *= 1.0 - max(head, body) * present * 0.85;
+
+                        totalEmissiveRadiance *= lamp * lit * mix(0.02, 1.0, uWindowDarkness);`);
+            }
+        };
+        return mat;
+    }
+
+    function createBatch(geo: THREE.BufferGeometry, mat: THREE.MeshStandardMaterial, capacity: number, options: { colored?: boolean, attribute?: InstanceAttribute } = {}): InstanceBatch {
+        const batchGeo = geo.clone();
+        if (options.attribute) {
+            patchInstanced(mat, options.attribute);
+            batchGeo.setAttribute(options.attribute, new THREE.InstancedBufferAttribute(new Float32Array(capacity).fill(1), 1));
+        }
+        const mesh = new THREE.InstancedMesh(batchGeo, mat, capacity);
+        mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+        mesh.count = 0;
+        // Instances span the whole streamed stretch, so the batch is never culled as one
+        mesh.frustumCulled = false;
+        mesh.castShadow = options.attribute !== 'aSnow';
+        mesh.receiveShadow = true;
+        if (options.colored) mesh.setColorAt(0, partColor.setHex(0xffffff));
+        world.add(mesh);
+        if (options.attribute === 'aSnow') snowCapsRef.current.push(mesh);
+        return { mesh, free: [], attribute: options.attribute ?? null };
+    }
+
+    // A full batch swaps in a mesh of twice the capacity, carrying over every
+    // placed instance, so a dense stretch never leaves props half-built
+    function growBatch(batch: InstanceBatch) {
+        const old = batch.mesh;
+        const capacity = old.instanceMatrix.count * 2;
+        const geo = old.geometry.clone();
+        if (batch.attribute) {
+            const values = new Float32Array(capacity).fill(1);
+            values.set(old.geometry.attributes[batch.attribute].array as Float32Array);
+            geo.setAttribute(batch.attribute, new THREE.InstancedBufferAttribute(values, 1));
+        }
+        const mesh = new THREE.InstancedMesh(geo, old.material, capacity);
+        mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+        (mesh.instanceMatrix.array as Float32Array).set(old.instanceMatrix.array as Float32Array);
+        if (old.instanceColor) {
+            mesh.setColorAt(0, partColor.setHex(0xffffff));
+            (mesh.instanceColor!.array as Float32Array).set(old.instanceColor.array as Float32Array);
+        }
+        mesh.count = old.count;
+        mesh.frustumCulled = false;
+        mesh.castShadow = old.castShadow;
+        mesh.receiveShadow = true;
+        world.remove(old);
+        world.add(mesh);
+        old.geometry.dispose();
+        old.dispose();
+        snowCapsRef.current = snowCapsRef.current.map(cap => (cap === old ? mesh : cap));
+        batch.mesh = mesh;
+    }
+
+    const unitBox = new THREE.BoxGeometry(1, 1, 1);
+    const unitCone4 = new THREE.ConeGeometry(1, 1, 4);
+    const unitCone6 = new THREE.ConeGeometry(1, 1, 6);
+    const unitIco = new THREE.IcosahedronGeometry(1, 0);
+    const unitTrunk = new THREE.CylinderGeometry(0.62, 1, 1, 5);
+    const unitPipe = new THREE.CylinderGeometry(0.67, 1, 1, 12);
+    const unitPrism = new THREE.CylinderGeometry(1, 1, 1, 3);
+    const capMat = () => new THREE.MeshStandardMaterial({ color: 0xeeeeee, roughness: 1, transparent: true, opacity: 0 });
+    const colorMat = (roughness: number, flatShading = false) => new THREE.MeshStandardMaterial({ color: 0xffffff, roughness, flatShading });
+
+    // One facade batch per generated panel texture; windows light up in the shader
+    const facadeBatches = buildingTexturesRef.current.length > 0
+        ? buildingTexturesRef.current.map(texSet => createBatch(unitBox, new THREE.MeshStandardMaterial({
+            map: texSet.map,
+            emissiveMap: texSet.emissive,
+            emissive: 0xffffff,
+            emissiveIntensity: 1.0,
+            roughness: 0.9,
+            metalness: 0.1
+        }), 512, { attribute: 'aWindows' }))
+        : [createBatch(unitBox, new THREE.MeshStandardMaterial({ color: 0x70757a, roughness: 0.9 }), 512)];
+    const boxBatch = createBatch(unitBox, colorMat(0.9), 1024, { colored: true });
+    const snowBoxBatch = createBatch(unitBox, capMat(), 512, { attribute: 'aSnow' });
+    const skylightBatch = createBatch(unitCone4, new THREE.MeshStandardMaterial({ color: 0x333333 }), 512);
+    const pipeBatch = createBatch(unitPipe, colorMat(1.0), 512, { colored: true });
+    const trunkBatch = createBatch(unitTrunk, colorMat(1.0), 2048, { colored: true });
+    const crownBatch = createBatch(unitIco, colorMat(1.0, true), 1024, { colored: true });
+    const snowCrownBatch = createBatch(unitIco, capMat(), 1024, { attribute: 'aSnow' });
+    const needleBatch = createBatch(unitCone6, new THREE.MeshStandardMaterial({ color: 0x1f2e22, roughness: 1.0, flatShading: true }), 2048);
+    const snowConeBatch = createBatch(unitCone6, capMat(), 2048, { attribute: 'aSnow' });
+    const roofBatch = createBatch(unitPrism, colorMat(0.8), 512, { colored: true });
+    const snowRoofBatch = createBatch(unitPrism, capMat(), 512, { attribute: 'aSnow' });
+    const bulbBatch = createBatch(unitBox, new THREE.MeshStandardMaterial({ color: 0xffffaa, emissive: 0xffaa00, emissiveIntensity: 0.8 }), 256, { attribute: 'aGlow' });
+
+    // One span carries the contact wire over both tracks
+    const wireCurve = new THREE.CatmullRomCurve3([
+        new THREE.Vector3(-3.5 + PARALLEL_TRACK_OFFSET, 3.2, 0),
+        new THREE.Vector3(PARALLEL_TRACK_OFFSET, 3.0, 0),
+        new THREE.Vector3(PARALLEL_TRACK_OFFSET / 2, 3.1, 0),
+        new THREE.Vector3(0, 3.0, 0),
+        new THREE.Vector3(3.5, 3.2, 0)
+    ]);
+    const wireBatch = createBatch(new THREE.TubeGeometry(wireCurve, 20, 0.012, 3), new THREE.MeshStandardMaterial({ color: 0x111111, roughness: 0.8 }), 256);
+
+    // People are a single pre-assembled figure, feet at the origin, painted with vertex colours
+    const personGeo = (() => {
+        const paint = (geo: THREE.BufferGeometry, hex: number, y: number) => {
+            geo.translate(0, y, 0);
+            const c = new THREE.Color(hex);
+            const colors = new Float32Array(geo.attributes.position.count * 3);
+            for (let i = 0; i < colors.length; i += 3) colors.set([c.r, c.g, c.b], i);
+            geo.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+            return geo;
+        };
+        return mergeGeometries([
+            paint(new THREE.CylinderGeometry(0.25, 0.3, 1.225, 8), 0x111111, 0.6125),
+            paint(new THREE.SphereGeometry(0.15, 8, 8), 0xdcb498, 1.375),
+            paint(new THREE.BoxGeometry(0.35, 0.25, 0.35), 0x332211, 1.505),
+        ]);
+    })();
+    const personBatch = createBatch(personGeo, new THREE.MeshStandardMaterial({ vertexColors: true, roughness: 0.9 }), 256, { attribute: 'aPhase' });
+
+    // Street lamps borrow a light from a small pool while their chunk is out
+    const freeLampLights: THREE.PointLight[] = [];
+
+    function acquireLampLight() {
+        let light = freeLampLights.pop();
+        if (!light) {
+            light = new THREE.PointLight(0xffaa00, 0, 8);
+            world.add(light);
+            streetLightsRef.current.push(light);
+        }
+        light.visible = true;
+        return light;
+    }
+
+    // Start a prop at lateral x and route position s; parts are then given in prop space
+    function beginProp(x: number, s: number, yaw = 0, scale = 1): SceneryProp {
+        const p = track.sample(s, placeSample);
+        partPos.set(p.x + Math.cos(p.heading) * x, p.y, p.z - Math.sin(p.heading) * x);
+        partQuat.setFromAxisAngle(upAxis, p.heading + yaw);
+        propRoot.compose(partPos, partQuat, partScale.setScalar(scale));
+        return { parts: [], light: null };
+    }
+
+    function addPart(
+        prop: SceneryProp, batch: InstanceBatch,
+        x: number, y: number, z: number,
+        sx: number, sy: number, sz: number,
+        options: { rotY?: number, rotZ?: number, color?: number, value?: number } = {}
+    ) {
+        if (!batch.free.length && batch.mesh.count >= batch.mesh.instanceMatrix.count) growBatch(batch);
+        const mesh = batch.mesh;
+        const index = batch.free.length ? batch.free.pop()! : mesh.count++;
+        partEuler.set(0, options.rotY ?? 0, options.rotZ ?? 0);
+        partMatrix.compose(partPos.set(x, y, z), partQuat.setFromEuler(partEuler), partScale.set(sx, sy, sz)).premultiply(propRoot);
+        mesh.setMatrixAt(index, partMatrix);
+        mesh.instanceMatrix.needsUpdate = true;
+        if (options.color !== undefined && mesh.instanceColor) {
+            mesh.setColorAt(index, partColor.setHex(options.color));
+            mesh.instanceColor.needsUpdate = true;
+        }
+        if (batch.attribute) {
+            const attr = mesh.geometry.attributes[batch.attribute] as THREE.InstancedBufferAttribute;
+            attr.setX(index, options.value ?? 1);
+            attr.needsUpdate = true;
+        }
+        prop.parts.push({ batch, index });
+    }
+
+    function removeProp(prop: SceneryProp) {
+        prop.parts.forEach(({ batch, index }) => {
+            batch.mesh.setMatrixAt(index, hiddenMatrix);
+            batch.mesh.instanceMatrix.needsUpdate = true;
+            batch.free.push(index);
+        });
+        if (prop.light) {
+            prop.light.visible = false;
+            freeLampLights.push(prop.light);
+        }
+    }
+
+    function createPanelHouse(rng: Rng, x: number, s: number) {
+      const prop = beginProp(x, s);
+      const width = 1.5 + rng() * 2.5;
+      const height = 2.5 + rng() * 3.5;
+      const depth = 1.0 + rng() * 1.0;
+      const facade = facadeBatches[Math.floor(rng() * facadeBatches.length)];
+      // The seed decides how full the block is and who keeps which hours
+      addPart(prop, facade, 0, height / 2, 0, width, height, depth, { value: rng() });
 
       // Balconies / Protrusions
-      const numBalconies = Math.floor(Math.random() * 4);
+      const numBalconies = Math.floor(rng() * 4);
       for(let k=0; k<numBalconies; k++) {
-          const bW = 0.4 + Math.random() * 0.4;
-          const bH = 0.2 + Math.random() * 0.2;
+          const bW = 0.4 + rng() * 0.4;
+          const bH = 0.2 + rng() * 0.2;
           const bD = 0.2;
-          const bGeo = new THREE.BoxGeometry(bW, bH, bD);
-          const bMat = new THREE.MeshStandardMaterial({ color: 0x555555 });
-          const balcony = new THREE.Mesh(bGeo, bMat);
-          
           const side = x > 0 ? -1 : 1;
-          balcony.position.set(
-              (width/2 * side) + (side * bD/2), // Stick out side or front? Front looks better for side view
-              Math.random() * (height * 0.7) + 0.5,
-              (Math.random() - 0.5) * depth * 0.8
-          );
-          if (Math.random() > 0.5) {
+          let bx = (width/2 * side) + (side * bD/2);
+          const by = rng() * (height * 0.7) + 0.5;
+          let bz = (rng() - 0.5) * depth * 0.8;
+          if (rng() > 0.5) {
                // Move to front face
-               balcony.position.x = (Math.random() - 0.5) * width * 0.8;
-               balcony.position.z = depth/2 + bD/2;
+               bx = (rng() - 0.5) * width * 0.8;
+               bz = depth/2 + bD/2;
           }
-          group.add(balcony);
+          addPart(prop, boxBatch, bx, by, bz, bW, bH, bD, { color: 0x555555 });
       }
 
-      // Snow Cap
-      const capGeo = new THREE.BoxGeometry(width + 0.1, 0.05, depth + 0.1);
-      const capMat = new THREE.MeshStandardMaterial({ color: 0xeeeeee, roughness: 1, transparent: true, opacity: 0 });
-      const cap = new THREE.Mesh(capGeo, capMat);
-      cap.position.y = height + 0.025;
-      snowCapsRef.current.push(cap);
-      group.add(cap);
-
-      group.position.set(x, 0, z);
-      world.add(group);
-      movingObjects.push(group);
-    }
-
-    function createFactory(x: number, z: number) {
-      const group = new THREE.Group();
-      const baseWidth = 3.0 + Math.random() * 2.0;
-      const baseHeight = 1.5 + Math.random() * 1.0;
-      const baseGeo = new THREE.BoxGeometry(baseWidth, baseHeight, 2.5);
-      const baseMat = new THREE.MeshStandardMaterial({ color: 0x4a4d4f, roughness: 0.95 });
-      const base = new THREE.Mesh(baseGeo, baseMat);
-      base.position.y = baseHeight / 2;
-      group.add(base);
+      addPart(prop, snowBoxBatch, 0, height + 0.025, 0, width + 0.1, 0.05, depth + 0.1);
+      return prop;
+    }
+
+    function createFactory(rng: Rng, x: number, s: number) {
+      const prop = beginProp(x, s);
+      const baseWidth = 3.0 + rng() * 2.0;
+      const baseHeight = 1.5 + rng() * 1.0;
+      addPart(prop, boxBatch, 0, baseHeight / 2, 0, baseWidth, baseHeight, 2.5, { color: 0x4a4d4f });
 
       // Roof details (Skylights)
       const roofDetailCount = 3;
       for(let i=0; i<roofDetailCount; i++) {
-          const rGeo = new THREE.ConeGeometry(0.4, 0.4, 4);
-          const rMat = new THREE.MeshStandardMaterial({ color: 0x333333 });
-          const rMesh = new THREE.Mesh(rGeo, rMat);
-          rMesh.position.set((Math.random() - 0.5) * baseWidth * 0.8, baseHeight + 0.2, (Math.random() - 0.5) * 1.5);
-          rMesh.rotation.y = Math.PI / 4;
-          group.add(rMesh);
+          addPart(prop, skylightBatch, (rng() - 0.5) * baseWidth * 0.8, baseHeight + 0.2, (rng() - 0.5) * 1.5, 0.4, 0.4, 0.4, { rotY: Math.PI / 4 });
       }
 
-      const capGeo = new THREE.BoxGeometry(baseWidth + 0.1, 0.05, 2.6);
-      const capMat = new THREE.MeshStandardMaterial({ color: 0xeeeeee, roughness: 1, transparent: true, opacity: 0 });
-      const cap = new THREE.Mesh(capGeo, capMat);
-      cap.position.y = baseHeight + 0.025;
-      snowCapsRef.current.push(cap);
-      group.add(cap);
-
-      const pipeHeight = 4.0 + Math.random() * 3.0;
-      const pipeGeo = new THREE.CylinderGeometry(0.2, 0.3, pipeHeight, 12);
-      const pipeMat = new THREE.MeshStandardMaterial({ color: 0x59463c, roughness: 1.0 });
-      const pipe = new THREE.Mesh(pipeGeo, pipeMat);
-      pipe.position.set((Math.random() - 0.5) * (baseWidth * 0.5), baseHeight + pipeHeight/2 - 0.2, 0);
-      group.add(pipe);
-
-      group.position.set(x, 0, z);
-      world.add(group);
-      movingObjects.push(group);
-    }
-
-    function createPoleSpan(z: number) {
-      const group = new THREE.Group();
-      const poleGeo = new THREE.BoxGeometry(0.1, 3.5, 0.1);
-      const poleMat = new THREE.MeshStandardMaterial({ color: 0x2a2a2a, roughness: 0.8 });
-      const leftPole = new THREE.Mesh(poleGeo, poleMat);
-      leftPole.position.set(-3.5, 1.75, 0);
-      const rightPole = new THREE.Mesh(poleGeo, poleMat);
-      rightPole.position.set(3.5, 1.75, 0);
-      group.add(leftPole, rightPole);
-      const wireMat = new THREE.LineBasicMaterial({ color: 0x111111, opacity: 0.7, transparent: true });
-      const points = [new THREE.Vector3(-3.5, 3.2, 0), new THREE.Vector3(0, 3.0, 0), new THREE.Vector3(3.5, 3.2, 0)];
-      const wireCurve = new THREE.CatmullRomCurve3(points);
-      const wireGeo = new THREE.BufferGeometry().setFromPoints(wireCurve.getPoints(10));
-      const wire = new THREE.Line(wireGeo, wireMat);
-      group.add(wire);
-      group.position.z = z;
-      world.add(group);
-      movingObjects.push(group);
-    }
-
-    function createStreetLight(x: number, z: number) {
-      const group = new THREE.Group();
+      addPart(prop, snowBoxBatch, 0, baseHeight + 0.025, 0, baseWidth + 0.1, 0.05, 2.6);
+
+      const pipeHeight = 4.0 + rng() * 3.0;
+      addPart(prop, pipeBatch, (rng() - 0.5) * (baseWidth * 0.5), baseHeight + pipeHeight/2 - 0.2, 0, 0.3, pipeHeight, 0.3, { color: 0x59463c });
+      return prop;
+    }
+
+    function createPoleSpan(s: number) {
+      const prop = beginProp(0, s);
+      addPart(prop, boxBatch, -3.5 + PARALLEL_TRACK_OFFSET, 1.75, 0, 0.1, 3.5, 0.1, { color: 0x2a2a2a });
+      addPart(prop, boxBatch, 3.5, 1.75, 0, 0.1, 3.5, 0.1, { color: 0x2a2a2a });
+      addPart(prop, wireBatch, 0, 0, 0, 1, 1, 1);
+      return prop;
+    }
+
+    function createStreetLight(rng: Rng, x: number, s: number) {
+      const prop = beginProp(x, s, x < 0 ? Math.PI : 0);
       const height = 2.5;
-      const poleGeo = new THREE.CylinderGeometry(0.04, 0.06, height, 8);
-      const poleMat = new THREE.MeshStandardMaterial({ color: 0x222222 });
-      const pole = new THREE.Mesh(poleGeo, poleMat);
-      pole.position.y = height / 2;
-      group.add(pole);
-      const armGeo = new THREE.BoxGeometry(0.6, 0.05, 0.05);
-      const arm = new THREE.Mesh(armGeo, poleMat);
-      arm.position.set(0.2, height - 0.1, 0);
-      group.add(arm);
-      const bulbGeo = new THREE.BoxGeometry(0.15, 0.05, 0.1);
-      const bulbMat = new THREE.MeshStandardMaterial({ color: 0xffffaa, emissive: 0xffaa00, emissiveIntensity: 0.8 });
-      const bulb = new THREE.Mesh(bulbGeo, bulbMat);
-      bulb.position.set(0.45, height - 0.15, 0);
-      group.add(bulb);
-      const light = new THREE.PointLight(0xffaa00, 0, 8);
-      light.position.set(0.45, height - 0.2, 0);
-      group.add(light);
-      streetLightsRef.current.push(light);
-      group.position.set(x, 0, z);
-      if (x < 0) group.rotation.y = Math.PI;
-      world.add(group);
-      movingObjects.push(group);
-    }
-
-    function createTree(x: number, z: number) {
-        const height = 1.5 + Math.random() * 2.5;
-        const trunkGeo = new THREE.CylinderGeometry(0.05, 0.08, height, 5);
-        const trunkMat = new THREE.MeshStandardMaterial({ color: 0x1e1a17, roughness: 1.0 });
-        const trunk = new THREE.Mesh(trunkGeo, trunkMat);
-        trunk.position.set(x, height / 2, z);
-        const crownGeo = new THREE.IcosahedronGeometry(Math.random() * 0.5 + 0.3, 0);
-        const crownMat = new THREE.MeshStandardMaterial({ color: 0x2f3530, roughness: 1.0, flatShading: true });
-        const crown = new THREE.Mesh(crownGeo, crownMat);
-        crown.position.set(x, height * 0.9, z);
-        
-        const capGeo = new THREE.IcosahedronGeometry(Math.random() * 0.5 + 0.35, 0);
+      addPart(prop, pipeBatch, 0, height / 2, 0, 0.06, height, 0.06, { color: 0x222222 });
+      addPart(prop, boxBatch, 0.2, height - 0.1, 0, 0.6, 0.05, 0.05, { color: 0x222222 });
+      // Now and then a lamp has given up
+      const lit = rng() > 0.1;
+      addPart(prop, bulbBatch, 0.45, height - 0.15, 0, 0.15, 0.05, 0.1, { value: lit ? 1 : 0 });
+      if (lit) {
+          prop.light = acquireLampLight();
+          prop.light.position.set(0.45, height - 0.2, 0).applyMatrix4(propRoot);
+      }
+      return prop;
+    }
+
+    function createTree(rng: Rng, x: number, s: number) {
+        const prop = beginProp(x, s, rng() * Math.PI * 2, 0.85 + rng() * 0.4);
+        const height = 1.5 + rng() * 2.5;
+        addPart(prop, trunkBatch, 0, height / 2, 0, 0.08, height, 0.08, { color: 0x1e1a17 });
+        const crown = rng() * 0.5 + 0.3;
+        addPart(prop, crownBatch, 0, height * 0.9, 0, crown, crown, crown, { color: 0x2f3530 });
+        const cap = rng() * 0.5 + 0.35;
+        addPart(prop, snowCrownBatch, 0, height * 0.95, 0, cap, cap * 0.5, cap, { value: 0.7 + rng() * 0.3 });
+        return prop;
+    }
+
+    function createBirch(rng: Rng, x: number, s: number) {
+        const prop = beginProp(x, s, rng() * Math.PI * 2, 0.85 + rng() * 0.4);
+        const height = 2.5 + rng() * 2.0;
+        addPart(prop, trunkBatch, 0, height / 2, 0, 0.06, height, 0.06, { rotZ: (rng() - 0.5) * 0.15, color: 0xd8d4c8 });
+        // Dark bark bands
+        for (let i = 0; i < 3; i++) {
+            addPart(prop, trunkBatch, 0, 0.4 + rng() * height * 0.6, 0, 0.062, 0.06, 0.062, { color: 0x1a1a1a });
+        }
+        const crown = 0.45 + rng() * 0.3;
+        addPart(prop, crownBatch, 0, height * 0.85, 0, crown * 0.8, crown * 1.4, crown * 0.8, { color: 0x55663a });
+        addPart(prop, snowCrownBatch, 0, height * 0.95, 0, 0.36, 0.2, 0.36, { value: 0.7 + rng() * 0.3 });
+        return prop;
+    }
+
+    function createPine(rng: Rng, x: number, s: number) {
+        const prop = beginProp(x, s, rng() * Math.PI * 2, 0.85 + rng() * 0.4);
+        const height = 3.0 + rng() * 3.0;
+        addPart(prop, trunkBatch, 0, height * 0.2, 0, 0.09, height * 0.4, 0.09, { color: 0x2a1d14 });
+        // Stacked cones, each with its own snow load
+        const snow = 0.75 + rng() * 0.25;
+        for (let i = 0; i < 3; i++) {
+            const radius = 0.7 - i * 0.18;
+            const tierHeight = height * 0.35;
+            const tierY = height * 0.3 + i * height * 0.22 + tierHeight / 2;
+            addPart(prop, needleBatch, 0, tierY, 0, radius, tierHeight, radius);
+            addPart(prop, snowConeBatch, 0, tierY + tierHeight * 0.3, 0, radius * 0.85, tierHeight * 0.45, radius * 0.85, { value: snow });
+        }
+        return prop;
+    }
+
+    function createDacha(rng: Rng, x: number, s: number) {
+        const prop = beginProp(x, s, (rng() - 0.5) * 0.3);
+        const width = 1.4 + rng() * 0.8;
+        const depth = 1.2 + rng() * 0.6;
+        const wallColors = [0x6b4a32, 0x5a7a5a, 0x8a6a3a, 0x4a5a7a];
+        addPart(prop, boxBatch, 0, 0.55, 0, width, 1.1, depth, { color: wallColors[Math.floor(rng() * wallColors.length)] });
+
+        // Pitched roof as a stretched triangular prism
+        addPart(prop, roofBatch, 0, 1.1 + 0.3, 0, 0.6, width + 0.2, 0.6 * (depth + 0.3) / 1.04, { rotZ: Math.PI / 2, color: rng() > 0.5 ? 0x5a2a22 : 0x555a5c });
+        addPart(prop, snowRoofBatch, 0, 1.1 + 0.32, 0, 0.62, width + 0.22, 0.62 * (depth + 0.32) / 1.04, { rotZ: Math.PI / 2 });
+
+        // Picket fence along the front
+        addPart(prop, boxBatch, x > 0 ? -width / 2 - 1.0 : width / 2 + 1.0, 0.25, 0, 0.04, 0.5, depth + 2.5, { color: 0x8a7a5a });
+        return prop;
+    }
+
+    function createPerson(rng: Rng, x: number, s: number) {
+        const prop = beginProp(x, s, rng() * Math.PI * 2);
+        const height = 1.7 + rng() * 0.1;
+        addPart(prop, personBatch, 0, 0, 0, 1, height / 1.75, 1, { value: rng() * Math.PI * 2 });
+        return prop;
+    }
+
+    function createNameBoard(name: string) {
+        const canvas = document.createElement('canvas');
+        canvas.width = 512;
+        canvas.height = 96;
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+            ctx.fillStyle = '#1d3f7a';
+            ctx.fillRect(0, 0, 512, 96);
+            ctx.strokeStyle = '#ffffff';
+            ctx.lineWidth = 6;
+            ctx.strokeRect(6, 6, 500, 84);
+            ctx.fillStyle = '#ffffff';
+            ctx.font = 'bold 52px monospace';
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillText(name, 256, 50, 480);
+        }
+        const boardMat = new THREE.MeshStandardMaterial({
+            map: new THREE.CanvasTexture(canvas), emissive: 0xffffff, emissiveIntensity: 0.05, roughness: 0.6
+        });
+        const board = new THREE.Mesh(new THREE.PlaneGeometry(2.4, 0.45), boardMat);
+        board.rotation.y = -Math.PI / 2;
+        return board;
+    }
+
+    function createVokzal(name: string) {
+        const group = new THREE.Group();
+        const wallColor = worldRng() > 0.5 ? 0xc9b47a : 0x8fb8a0; // ochre or mint, the usual station paint
+        const wallMat = new THREE.MeshStandardMaterial({ color: wallColor, roughness: 0.9 });
+        const trimMat = new THREE.MeshStandardMaterial({ color: 0xe8e4d8, roughness: 0.8 });
+
+        const wing = new THREE.Mesh(new THREE.BoxGeometry(3, 2.2, 14), wallMat);
+        wing.position.y = 1.1;
+        group.add(wing);
+        const cornice = new THREE.Mesh(new THREE.BoxGeometry(3.2, 0.15, 14.2), trimMat);
+        cornice.position.y = 2.25;
+        group.add(cornice);
+
+        // Central portico with pediment and spire
+        const portico = new THREE.Mesh(new THREE.BoxGeometry(3.4, 3.2, 4), wallMat);
+        portico.position.y = 1.6;
+        group.add(portico);
+        const pediment = new THREE.Mesh(new THREE.CylinderGeometry(1.1, 1.1, 4.2, 3), trimMat);
+        pediment.rotation.x = Math.PI / 2;
+        pediment.rotation.z = Math.PI / 2;
+        pediment.scale.set(1, 1, 0.5);
+        pediment.position.y = 3.5;
+        group.add(pediment);
+        const spire = new THREE.Mesh(new THREE.ConeGeometry(0.25, 2.0, 6), new THREE.MeshStandardMaterial({ color: 0x887744, metalness: 0.6, roughness: 0.4 }));
+        spire.position.y = 4.8;
+        group.add(spire);
+
+        // Windows glow in the evening
+        const windowMat = new THREE.MeshStandardMaterial({ color: 0x222018, emissive: 0xffbb66, emissiveIntensity: 0 });
+        stationWindowMatsRef.current.push(windowMat);
+        for (let i = -2; i <= 2; i++) {
+            if (i === 0) continue;
+            const win = new THREE.Mesh(new THREE.PlaneGeometry(1.2, 1.0), windowMat);
+            win.rotation.y = -Math.PI / 2;
+            win.position.set(-1.51, 1.2, i * 2.8);
+            group.add(win);
+        }
+
+        const board = createNameBoard(name);
+        board.scale.set(1.4, 1.4, 1);
+        board.position.set(-1.72, 2.7, 0);
+        group.add(board);
+
+        const capGeo = new THREE.BoxGeometry(3.1, 0.05, 14.1);
         const capMat = new THREE.MeshStandardMaterial({ color: 0xeeeeee, roughness: 1, transparent: true, opacity: 0 });
         const cap = new THREE.Mesh(capGeo, capMat);
-        cap.position.set(x, height * 0.95, z);
-        cap.scale.set(1, 0.5, 1);
+        cap.position.y = 2.35;
         snowCapsRef.current.push(cap);
+        group.add(cap);
+
+        return group;
+    }
 
+    // Platform (and for big stations a vokzal) whose stopping mark sits at local z = 0
+    function createStationStop(station: Station, z: number) {
         const group = new THREE.Group();
-        group.add(trunk, crown, cap);
-        world.add(group);
-        movingObjects.push(group);
+        const isStation = station.kind === 'station';
+        const ahead = 10;
+        const behind = isStation ? 70 : 45;
+        const length = ahead + behind;
+
+        const slabMat = new THREE.MeshStandardMaterial({ color: 0x6b6a66, roughness: 1.0 });
+        const slab = new THREE.Mesh(new THREE.BoxGeometry(2.6, 0.35, length), slabMat);
+        slab.position.set(3.0, 0.175, (behind - ahead) / 2);
+        group.add(slab);
+        const edgeMat = new THREE.MeshStandardMaterial({ color: 0xd8c040, roughness: 0.8 });
+        const edge = new THREE.Mesh(new THREE.BoxGeometry(0.15, 0.02, length), edgeMat);
+        edge.position.set(1.82, 0.36, (behind - ahead) / 2);
+        group.add(edge);
+
+        // Name boards on twin posts
+        const postMat = new THREE.MeshStandardMaterial({ color: 0x333333, roughness: 0.7 });
+        [-4, behind * 0.5].forEach(bz => {
+            const board = createNameBoard(station.name);
+            board.position.set(3.0, 1.9, bz);
+            group.add(board);
+            [-0.9, 0.9].forEach(off => {
+                const post = new THREE.Mesh(new THREE.CylinderGeometry(0.03, 0.03, 1.7, 6), postMat);
+                post.position.set(3.02, 1.2, bz + off);
+                group.add(post);
+            });
+        });
+
+        // Platform lamp
+        const lampLight = new THREE.PointLight(0xffcc88, 0, 10);
+        lampLight.position.set(2.4, 2.3, 4);
+        streetLightsRef.current.push(lampLight);
+        group.add(lampLight);
+        const lampPost = new THREE.Mesh(new THREE.CylinderGeometry(0.04, 0.05, 2.2, 6), postMat);
+        lampPost.position.set(3.6, 1.45, 4);
+        group.add(lampPost);
+
+        if (isStation) {
+            const canopy = new THREE.Mesh(new THREE.BoxGeometry(2.4, 0.08, 24), new THREE.MeshStandardMaterial({ color: 0x4a4f52, roughness: 0.8 }));
+            canopy.position.set(3.2, 2.4, 16);
+            group.add(canopy);
+            for (let cz = 6; cz <= 26; cz += 5) {
+                const column = new THREE.Mesh(new THREE.CylinderGeometry(0.05, 0.05, 2.05, 6), postMat);
+                column.position.set(3.6, 1.37, cz);
+                group.add(column);
+            }
+            const vokzal = createVokzal(station.name);
+            vokzal.position.set(7.5, 0, 16);
+            group.add(vokzal);
+        }
+
+        group.position.set(0, 0, z);
+        group.userData.length = behind;
+        addTransientObject(group);
+
+        // A few waiting passengers, handed to the scenery chunk they stand in
+        const waiting = isStation ? 4 : 2;
+        for (let i = 0; i < waiting; i++) {
+            if (worldRng() > 0.3) {
+                const s = routePosRef.current - (z + worldRng() * behind * 0.6);
+                addChunkProp(createPerson(worldRng, 2.6 + worldRng() * 1.2, s), s);
+            }
+        }
+    }
+
+    // Scenery slots that wrap into a platform's footprint stay hidden for that pass
+    function isInStationZone(routePos: number) {
+        const route = routeRef.current;
+        for (let i = stopIndexRef.current; i < Math.min(stopIndexRef.current + 2, route.stations.length); i++) {
+            const stopPos = (route.stations[i].km - route.startKm) * 1000;
+            if (routePos > stopPos - 75 && routePos < stopPos + 20) return true;
+        }
+        return false;
     }
 
-    function createPerson(x: number, z: number) {
+    // --- Track structures ---
+    // Each is built from short pieces anchored along the spline so it follows curves.
+    const activeStructures: { structure: TrackStructure, parts: THREE.Object3D[] }[] = [];
+    let upcomingStructure = track.nextStructure(0);
+    let appliedEnclosure = 0;
+    // Tubes and bridge decks are centred between the two tracks
+    const structureCentre = PARALLEL_TRACK_OFFSET / 2;
+
+    function addStructurePart(parts: THREE.Object3D[], obj: THREE.Object3D, s: number) {
+        obj.position.z = routePosRef.current - s;
+        anchorToTrack(obj);
+        parts.push(obj);
+    }
+
+    // Wall-and-vault profile of a tunnel bore, optionally widened for the hill around it
+    function traceBore(path: THREE.Path | THREE.Shape, halfSpan: number, springY: number) {
+        path.moveTo(structureCentre - halfSpan, -0.5);
+        path.lineTo(structureCentre - halfSpan, springY);
+        path.absarc(structureCentre, springY, halfSpan, Math.PI, 0, true);
+        path.lineTo(structureCentre + halfSpan, -0.5);
+        path.closePath();
+    }
+
+    function createTunnel(st: TrackStructure, parts: THREE.Object3D[]) {
+        const halfSpan = 6.5;
+        const springY = 3;
+        const segLen = TUNNEL_SEGMENT + 0.2;
+        const liningMat = new THREE.MeshStandardMaterial({ color: 0x3a3835, roughness: 1.0, side: THREE.DoubleSide });
+        const hillMat = new THREE.MeshStandardMaterial({ color: groundMat.color.clone(), roughness: 1.0 });
+        const lampMat = new THREE.MeshStandardMaterial({ color: 0xffeecc, emissive: 0xffcc77, emissiveIntensity: 1.5 });
+        const portalMat = new THREE.MeshStandardMaterial({ color: 0x8a857c, roughness: 0.9 });
+
+        // Hill with the bore cut through it; the lining covers the cut faces
+        const hillShape = new THREE.Shape();
+        const h = st.height;
+        hillShape.moveTo(structureCentre - 48, -0.5);
+        hillShape.lineTo(structureCentre - 22, h * 0.55);
+        hillShape.lineTo(structureCentre - 9, h);
+        hillShape.lineTo(structureCentre + 5, h);
+        hillShape.lineTo(structureCentre + 18, h * 0.55);
+        hillShape.lineTo(structureCentre + 44, -0.5);
+        hillShape.closePath();
+        const bore = new THREE.Path();
+        traceBore(bore, halfSpan + 0.3, springY);
+        hillShape.holes.push(bore);
+        const hillGeo = new THREE.ExtrudeGeometry(hillShape, { depth: segLen, bevelEnabled: false });
+        hillGeo.translate(0, 0, -segLen / 2);
+
+        const wallGeo = new THREE.BoxGeometry(0.3, springY + 0.5, segLen);
+        const vaultGeo = new THREE.CylinderGeometry(halfSpan, halfSpan, segLen, 16, 1, true, Math.PI / 2, Math.PI);
+        vaultGeo.rotateX(Math.PI / 2);
+        const lampGeo = new THREE.BoxGeometry(0.1, 0.25, 0.6);
+        const cableGeo = new THREE.BoxGeometry(0.08, 0.08, segLen);
+
+        const segments = Math.ceil((st.end - st.start) / TUNNEL_SEGMENT);
+        for (let i = 0; i < segments; i++) {
+            const segment = new THREE.Group();
+            segment.add(new THREE.Mesh(hillGeo, hillMat));
+            [-1, 1].forEach(side => {
+                const wall = new THREE.Mesh(wallGeo, liningMat);
+                wall.position.set(structureCentre + side * (halfSpan + 0.15), (springY - 0.5) / 2, 0);
+                segment.add(wall);
+                const cable = new THREE.Mesh(cableGeo, liningMat);
+                cable.position.set(structureCentre + side * (halfSpan - 0.05), 2.2, 0);
+                segment.add(cable);
+            });
+            const vault = new THREE.Mesh(vaultGeo, liningMat);
+            vault.position.set(structureCentre, springY, 0);
+            segment.add(vault);
+            // Sparse wall lamps give the only sense of speed in the dark
+            if (i % 3 === 1) {
+                const lamp = new THREE.Mesh(lampGeo, lampMat);
+                lamp.position.set(structureCentre + halfSpan - 0.1, 2.8, 0);
+                segment.add(lamp);
+            }
+            addStructurePart(parts, segment, st.start + (i + 0.5) * TUNNEL_SEGMENT);
+        }
+
+        // Portals with wing walls; the entrance gets a star above the arch
+        const portalShape = new THREE.Shape();
+        const portalTop = Math.max(springY + halfSpan + 2.5, h * 0.85);
+        portalShape.moveTo(structureCentre - 22, -0.5);
+        portalShape.lineTo(structureCentre - 22, portalTop - 4);
+        portalShape.lineTo(structureCentre - 12, portalTop);
+        portalShape.lineTo(structureCentre + 12, portalTop);
+        portalShape.lineTo(structureCentre + 22, portalTop - 4);
+        portalShape.lineTo(structureCentre + 22, -0.5);
+        portalShape.closePath();
+        const opening = new THREE.Path();
+        traceBore(opening, halfSpan, springY);
+        portalShape.holes.push(opening);
+        const portalGeo = new THREE.ExtrudeGeometry(portalShape, { depth: 1.2, bevelEnabled: false });
+        portalGeo.translate(0, 0, -0.6);
+
+        [st.start + 0.6, st.end - 0.6].forEach((ps, idx) => {
+            const portal = new THREE.Group();
+            portal.add(new THREE.Mesh(portalGeo, portalMat));
+            if (idx === 0) {
+                const star = new THREE.Shape();
+                for (let k = 0; k < 10; k++) {
+                    const r = k % 2 === 0 ? 1.0 : 0.4;
+                    const a = Math.PI / 2 + (k * Math.PI) / 5;
+                    if (k === 0) star.moveTo(Math.cos(a) * r, Math.sin(a) * r);
+                    else star.lineTo(Math.cos(a) * r, Math.sin(a) * r);
+                }
+                star.closePath();
+                const starMesh = new THREE.Mesh(
+                    new THREE.ExtrudeGeometry(star, { depth: 0.15, bevelEnabled: false }),
+                    new THREE.MeshStandardMaterial({ color: 0xaa1a12, roughness: 0.6 })
+                );
+                starMesh.position.set(structureCentre, springY + halfSpan + 1.2, 0.6);
+                portal.add(starMesh);
+            }
+            addStructurePart(parts, portal, ps);
+        });
+    }
+
+    function createBridge(st: TrackStructure, parts: THREE.Object3D[]) {
+        const steelMat = new THREE.MeshStandardMaterial({ color: 0x3d4a3f, roughness: 0.6, metalness: 0.5 });
+        const deckMat = new THREE.MeshStandardMaterial({ color: 0x2b2a28, roughness: 0.9, metalness: 0.3 });
+        const concreteMat = new THREE.MeshStandardMaterial({ color: 0x77736c, roughness: 1.0 });
+        const trussX = [2.4, PARALLEL_TRACK_OFFSET - 2.4];
+        const width = trussX[0] - trussX[1];
+        const trussH = 6;
+        const diagAngle = Math.atan2(trussH, BRIDGE_PANEL);
+
+        const chordGeo = new THREE.BoxGeometry(0.35, 0.45, BRIDGE_PANEL + 0.05);
+        const postGeo = new THREE.BoxGeometry(0.3, trussH, 0.3);
+        const diagGeo = new THREE.BoxGeometry(0.25, 0.25, Math.hypot(BRIDGE_PANEL, trussH));
+        const braceGeo = new THREE.BoxGeometry(width, 0.25, 0.25);
+        const deckGeo = new THREE.BoxGeometry(width, 0.8, BRIDGE_PANEL + 0.05);
+
+        const panels = Math.round((st.end - st.start) / BRIDGE_PANEL);
+        for (let i = 0; i < panels; i++) {
+            const panel = new THREE.Group();
+            const deck = new THREE.Mesh(deckGeo, deckMat);
+            deck.position.set(structureCentre, -0.45, 0);
+            panel.add(deck);
+            trussX.forEach(x => {
+                const bottom = new THREE.Mesh(chordGeo, steelMat);
+                bottom.position.set(x, 0.2, 0);
+                panel.add(bottom);
+                const top = new THREE.Mesh(chordGeo, steelMat);
+                top.position.set(x, trussH, 0);
+                panel.add(top);
+                const ends = i === panels - 1 ? [BRIDGE_PANEL / 2, -BRIDGE_PANEL / 2] : [BRIDGE_PANEL / 2];
+                ends.forEach(z => {
+                    const post = new THREE.Mesh(postGeo, steelMat);
+                    post.position.set(x, trussH / 2, z);
+                    panel.add(post);
+                });
+                const diag = new THREE.Mesh(diagGeo, steelMat);
+                diag.position.set(x, trussH / 2, 0);
+                diag.rotation.x = i % 2 === 0 ? diagAngle : -diagAngle;
+                panel.add(diag);
+            });
+            const brace = new THREE.Mesh(braceGeo, steelMat);
+            brace.position.set(structureCentre, trussH, BRIDGE_PANEL / 2);
+            panel.add(brace);
+            addStructurePart(parts, panel, st.start + (i + 0.5) * BRIDGE_PANEL);
+        }
+
+        // Piers down to the valley floor every few panels, abutments at the ends
+        for (let i = 4; i < panels; i += 4) {
+            const ps = st.start + i * BRIDGE_PANEL;
+            const depth = getGroundDip(ps) + 1;
+            const pier = new THREE.Mesh(new THREE.BoxGeometry(width + 1, depth, 2.5), concreteMat);
+            pier.position.set(structureCentre, -0.85 - depth / 2, 0);
+            addStructurePart(parts, pier, ps);
+        }
+        [st.start - 1.5, st.end + 1.5].forEach(ps => {
+            const abutment = new THREE.Mesh(new THREE.BoxGeometry(width + 3, 3, 4), concreteMat);
+            abutment.position.set(structureCentre, -1.6, 0);
+            addStructurePart(parts, abutment, ps);
+        });
+
+        // The river itself
+        const riverWidth = (st.end - st.start) * 0.45;
+        const water = new THREE.Mesh(
+            new THREE.PlaneGeometry(220, riverWidth),
+            new THREE.MeshStandardMaterial({ color: 0x2a3a40, roughness: 0.15, metalness: 0.4 })
+        );
+        water.rotation.x = -Math.PI / 2;
+        const river = new THREE.Group();
+        river.add(water);
+        river.position.y = -st.height + 0.3;
+        addStructurePart(parts, river, (st.start + st.end) / 2);
+    }
+
+    function createOverpass(st: TrackStructure, parts: THREE.Object3D[]) {
         const group = new THREE.Group();
-        const height = 1.7 + Math.random() * 0.1;
-        const bodyGeo = new THREE.CylinderGeometry(0.25, 0.3, height * 0.7, 8);
-        const bodyMat = new THREE.MeshStandardMaterial({ color: 0x111111, roughness: 0.9 });
-        const body = new THREE.Mesh(bodyGeo, bodyMat);
-        body.position.y = (height * 0.7) / 2;
-        group.add(body);
-        const headGeo = new THREE.SphereGeometry(0.15, 8, 8);
-        const headMat = new THREE.MeshStandardMaterial({ color: 0xdcb498, roughness: 0.5 });
-        const head = new THREE.Mesh(headGeo, headMat);
-        head.position.y = (height * 0.7) + 0.15;
-        group.add(head);
-        const hatGeo = new THREE.BoxGeometry(0.35, 0.25, 0.35);
-        const hatMat = new THREE.MeshStandardMaterial({ color: 0x332211, roughness: 1.0 });
-        const hat = new THREE.Mesh(hatGeo, hatMat);
-        hat.position.y = (height * 0.7) + 0.28;
-        group.add(hat);
-        group.position.set(x, 0, z);
-        group.rotation.y = Math.random() * Math.PI * 2;
-        world.add(group);
-        movingObjects.push(group);
-        peopleRef.current.push(group);
-    }
-
-    const totalObjects = 40;
-    const spacing = 4;
-    for (let i = 0; i < totalObjects; i++) {
-      const z = -15 - i * spacing;
-      const leftX = -8 - Math.random() * 6;
-      const rightX = 8 + Math.random() * 6;
-      createPanelHouse(leftX, z - 1 + Math.random() * 2);
-      createPanelHouse(rightX, z + Math.random() * 2);
-      if (Math.random() > 0.7) {
-          const px = leftX + (Math.random() > 0.5 ? 1.5 : -1.5);
-          createPerson(px, z + Math.random());
+        const concreteMat = new THREE.MeshStandardMaterial({ color: 0x77736c, roughness: 1.0 });
+        const earthMat = new THREE.MeshStandardMaterial({ color: groundMat.color.clone(), roughness: 1.0 });
+        const clearance = st.height;
+        const span = 64;
+
+        const deck = new THREE.Mesh(new THREE.BoxGeometry(span, 1.1, 11), concreteMat);
+        deck.position.set(structureCentre, clearance + 0.55, 0);
+        group.add(deck);
+        [-5.4, 5.4].forEach(z => {
+            const parapet = new THREE.Mesh(new THREE.BoxGeometry(span, 0.9, 0.25), concreteMat);
+            parapet.position.set(structureCentre, clearance + 1.55, z);
+            group.add(parapet);
+        });
+        [PARALLEL_TRACK_OFFSET - 4.5, 4.5].forEach(x => {
+            [-3.5, 3.5].forEach(z => {
+                const column = new THREE.Mesh(new THREE.CylinderGeometry(0.55, 0.6, clearance, 10), concreteMat);
+                column.position.set(x, clearance / 2, z);
+                group.add(column);
+            });
+            const cap = new THREE.Mesh(new THREE.BoxGeometry(1.4, 0.7, 9.5), concreteMat);
+            cap.position.set(x, clearance - 0.35, 0);
+            group.add(cap);
+        });
+        // Road embankments either side
+        [-1, 1].forEach(side => {
+            const bank = new THREE.Mesh(new THREE.BoxGeometry(28, clearance + 1.5, 14), earthMat);
+            bank.position.set(structureCentre + side * (span / 2 + 14), (clearance + 1.5) / 2 - 0.5, 0);
+            group.add(bank);
+        });
+        // Lamp standards on the deck, lit with the street lights
+        const lampHeadMat = new THREE.MeshStandardMaterial({ color: 0x222222, emissive: 0xffaa44, emissiveIntensity: 0 });
+        stationWindowMatsRef.current.push(lampHeadMat);
+        [-12, 10].forEach(x => {
+            const post = new THREE.Mesh(new THREE.CylinderGeometry(0.06, 0.08, 5, 6), concreteMat);
+            post.position.set(structureCentre + x, clearance + 3.6, 5.2);
+            group.add(post);
+            const head = new THREE.Mesh(new THREE.BoxGeometry(0.4, 0.15, 0.8), lampHeadMat);
+            head.position.set(structureCentre + x, clearance + 6.1, 4.8);
+            group.add(head);
+        });
+        addStructurePart(parts, group, (st.start + st.end) / 2);
+    }
+
+    // Level crossings: a road across both tracks with barriers, signals and waiting traffic
+    const crossings: CrossingState[] = [];
+    const roadVehicleColors = [0xe8e4d8, 0x8b1a1a, 0x2a4a7a, 0x4a6a3a, 0xc8a040];
+
+    // Road vehicles are built facing local -Z
+    function createRoadVehicle(headMat: THREE.Material, tailMat: THREE.Material) {
+        const group = new THREE.Group();
+        const roll = worldRng();
+        const kind = roll < 0.6 ? 'car' : (roll < 0.85 ? 'truck' : 'bus');
+        const glassMat = new THREE.MeshStandardMaterial({ color: 0x1a2228, roughness: 0.2, metalness: 0.6 });
+        const wheelGeo = new THREE.CylinderGeometry(0.32, 0.32, 0.25, 10);
+        wheelGeo.rotateZ(Math.PI / 2);
+        const wheelMat = new THREE.MeshStandardMaterial({ color: 0x111111, roughness: 0.9 });
+        let length: number;
+        let width: number;
+        let lampY: number;
+
+        if (kind === 'car') {
+            length = 4.2;
+            width = 1.65;
+            lampY = 0.6;
+            const paint = new THREE.MeshStandardMaterial({ color: roadVehicleColors[Math.floor(worldRng() * roadVehicleColors.length)], roughness: 0.5, metalness: 0.3 });
+            const body = new THREE.Mesh(new THREE.BoxGeometry(width, 0.7, length), paint);
+            body.position.y = 0.6;
+            group.add(body);
+            const cabin = new THREE.Mesh(new THREE.BoxGeometry(1.5, 0.55, 2.1), glassMat);
+            cabin.position.set(0, 1.22, 0.2);
+            group.add(cabin);
+        } else if (kind === 'truck') {
+            length = 6.5;
+            width = 2.3;
+            lampY = 0.9;
+            const cab = new THREE.Mesh(new THREE.BoxGeometry(2.2, 1.7, 1.8), new THREE.MeshStandardMaterial({ color: worldRng() > 0.5 ? 0x3f5a3a : 0x2f4a6a, roughness: 0.7 }));
+            cab.position.set(0, 1.45, -2.3);
+            group.add(cab);
+            const windscreen = new THREE.Mesh(new THREE.BoxGeometry(1.9, 0.6, 0.05), glassMat);
+            windscreen.position.set(0, 1.85, -3.21);
+            group.add(windscreen);
+            const tarp = new THREE.Mesh(new THREE.BoxGeometry(width, 1.9, 4.4), new THREE.MeshStandardMaterial({ color: 0x5a5a3a, roughness: 1.0 }));
+            tarp.position.set(0, 1.6, 0.95);
+            group.add(tarp);
+        } else {
+            length = 7.5;
+            width = 2.4;
+            lampY = 0.8;
+            const body = new THREE.Mesh(new THREE.BoxGeometry(width, 2.3, length), new THREE.MeshStandardMaterial({ color: 0xd9a520, roughness: 0.6 }));
+            body.position.y = 1.55;
+            group.add(body);
+            const windows = new THREE.Mesh(new THREE.BoxGeometry(width + 0.02, 0.8, length - 1.2), glassMat);
+            windows.position.set(0, 2.05, 0.3);
+            group.add(windows);
+        }
+
+        [-1, 1].forEach(side => {
+            [-length / 2 + 1, length / 2 - 1].forEach(z => {
+                const wheel = new THREE.Mesh(wheelGeo, wheelMat);
+                wheel.position.set(side * (width / 2 - 0.1), 0.32, z);
+                group.add(wheel);
+            });
+            const head = new THREE.Mesh(new THREE.BoxGeometry(0.3, 0.15, 0.05), headMat);
+            head.position.set(side * (width / 2 - 0.3), lampY, -length / 2 - 0.03);
+            group.add(head);
+            const tail = new THREE.Mesh(new THREE.BoxGeometry(0.2, 0.12, 0.05), tailMat);
+            tail.position.set(side * (width / 2 - 0.2), lampY, length / 2 + 0.03);
+            group.add(tail);
+        });
+        return { group, length };
+    }
+
+    function createCrossing(st: TrackStructure, parts: THREE.Object3D[]) {
+        const group = new THREE.Group();
+        const roadWidth = st.end - st.start;
+        const leftEdge = PARALLEL_TRACK_OFFSET - 5.5;
+        const rightEdge = 5.5;
+
+        // Road running off square to the track, with a rubber deck over the rails
+        const road = new THREE.Mesh(new THREE.BoxGeometry(200, 0.06, roadWidth - 1), new THREE.MeshStandardMaterial({ color: 0x2d2d2d, roughness: 0.95 }));
+        road.position.set(structureCentre, -0.02, 0);
+        group.add(road);
+        const deck = new THREE.Mesh(new THREE.BoxGeometry(rightEdge - leftEdge - 1, 0.08, roadWidth - 1), new THREE.MeshStandardMaterial({ color: 0x1f1f1f, roughness: 0.9 }));
+        deck.position.set(structureCentre, 0.05, 0);
+        group.add(deck);
+
+        const redMats = [0, 1].map(() => new THREE.MeshStandardMaterial({ color: 0x330000, emissive: 0xff1a0a, emissiveIntensity: 0 }));
+        const lunarMat = new THREE.MeshStandardMaterial({ color: 0x333333, emissive: 0xddeeff, emissiveIntensity: 0 });
+        const mastMat = new THREE.MeshStandardMaterial({ color: 0xdddddd, roughness: 0.7 });
+        const stripeMats = [
+            new THREE.MeshStandardMaterial({ color: 0xcc1a1a, roughness: 0.6 }),
+            new THREE.MeshStandardMaterial({ color: 0xeeeeee, roughness: 0.6 }),
+        ];
+        const plateMat = new THREE.MeshStandardMaterial({ color: 0x111111, roughness: 0.9 });
+        const barriers: { pivot: THREE.Group, raised: number }[] = [];
+        // Waiting vehicles' headlamps come on with the street lights
+        const headlampsMat = new THREE.MeshStandardMaterial({ color: 0x444444, emissive: 0xfff2cc, emissiveIntensity: 0 });
+        const taillampsMat = new THREE.MeshStandardMaterial({ color: 0x330000, emissive: 0xff2200, emissiveIntensity: 0 });
+        stationWindowMatsRef.current.push(headlampsMat, taillampsMat);
+
+        // Traffic keeps right, so each approach has its barrier across the nearside lane
+        [
+            { x: rightEdge, out: 1, edgeZ: -roadWidth / 2 - 0.2 },
+            { x: leftEdge, out: -1, edgeZ: roadWidth / 2 + 0.2 },
+        ].forEach(({ x, out, edgeZ }) => {
+            const armDir = -Math.sign(edgeZ);
+            const post = new THREE.Mesh(new THREE.BoxGeometry(0.3, 1.0, 0.3), stripeMats[1]);
+            post.position.set(x, 0.5, edgeZ);
+            group.add(post);
+            const pivot = new THREE.Group();
+            pivot.position.set(x, 1.0, edgeZ);
+            for (let k = 0; k < 8; k++) {
+                const seg = new THREE.Mesh(new THREE.BoxGeometry(0.1, 0.12, 0.5), stripeMats[k % 2]);
+                seg.position.z = armDir * (0.25 + k * 0.5);
+                pivot.add(seg);
+            }
+            const raised = -armDir * Math.PI / 2;
+            pivot.rotation.x = raised;
+            group.add(pivot);
+            barriers.push({ pivot, raised });
+
+            // Signal mast: twin red lamps over a white "lunar" lamp, topped by the X sign
+            const mastX = x + out * 1.2;
+            const mast = new THREE.Mesh(new THREE.CylinderGeometry(0.07, 0.07, 3.6, 8), mastMat);
+            mast.position.set(mastX, 1.8, edgeZ);
+            group.add(mast);
+            const plate = new THREE.Mesh(new THREE.BoxGeometry(0.05, 0.5, 1.3), plateMat);
+            plate.position.set(mastX + out * 0.1, 2.5, edgeZ);
+            group.add(plate);
+            [-0.4, 0.4].forEach((dz, k) => {
+                const lamp = new THREE.Mesh(new THREE.SphereGeometry(0.14, 10, 8), redMats[k]);
+                lamp.position.set(mastX + out * 0.15, 2.5, edgeZ + dz);
+                group.add(lamp);
+            });
+            const lunar = new THREE.Mesh(new THREE.SphereGeometry(0.1, 10, 8), lunarMat);
+            lunar.position.set(mastX + out * 0.15, 2.05, edgeZ);
+            group.add(lunar);
+            [Math.PI / 4, -Math.PI / 4].forEach(angle => {
+                const board = new THREE.Mesh(new THREE.BoxGeometry(0.04, 0.2, 1.4), stripeMats[1]);
+                board.position.set(mastX + out * 0.1, 3.3, edgeZ);
+                board.rotation.x = angle;
+                group.add(board);
+            });
+
+            // Queue of cars, trucks or a bus waiting at the barrier
+            const vehicles = 1 + Math.floor(worldRng() * 3);
+            let cursor = Math.abs(x - structureCentre) + 2.5;
+            for (let v = 0; v < vehicles; v++) {
+                const { group: vehicle, length } = createRoadVehicle(headlampsMat, taillampsMat);
+                vehicle.position.set(structureCentre + out * (cursor + length / 2), 0, edgeZ / 2);
+                vehicle.rotation.y = out * Math.PI / 2;
+                group.add(vehicle);
+                cursor += length + 1.5;
+            }
+        });
+
+        const glow = new THREE.PointLight(0xff2a10, 0, 18);
+        glow.position.set(rightEdge + 1.4, 2.6, -roadWidth / 2);
+        group.add(glow);
+
+        addStructurePart(parts, group, (st.start + st.end) / 2);
+        crossings.push({ structure: st, barriers, redMats, lunarMat, glow, bellGain: null, bellPanner: null, nextStrike: 0 });
+    }
+
+    // One strike of the electric bell: a few inharmonic partials decaying fast
+    function strikeBell(crossing: CrossingState, ctx: AudioContext, master: GainNode, time: number) {
+        if (!crossing.bellGain || !crossing.bellPanner) {
+            crossing.bellGain = ctx.createGain();
+            crossing.bellGain.gain.value = 0;
+            crossing.bellPanner = ctx.createStereoPanner();
+            crossing.bellGain.connect(crossing.bellPanner);
+            crossing.bellPanner.connect(master);
+        }
+        [1320, 1870, 2710].forEach((freq, k) => {
+            const osc = ctx.createOscillator();
+            osc.frequency.value = freq;
+            const env = ctx.createGain();
+            env.gain.setValueAtTime(0, time);
+            env.gain.linearRampToValueAtTime(0.3 / (k + 1), time + 0.003);
+            env.gain.exponentialRampToValueAtTime(0.001, time + 0.18);
+            osc.connect(env);
+            env.connect(crossing.bellGain!);
+            osc.start(time);
+            osc.stop(time + 0.2);
+        });
+    }
+
+    function silenceBell(crossing: CrossingState) {
+        crossing.bellGain?.disconnect();
+        crossing.bellPanner?.disconnect();
+        crossing.bellGain = null;
+        crossing.bellPanner = null;
+    }
+
+    function updateCrossings(t: number, delta: number, routePos: number) {
+        const ctx = audioCtxRef.current;
+        const master = masterGainRef.current;
+        crossings.forEach(crossing => {
+            const st = crossing.structure;
+            const along = (st.start + st.end) / 2 - routePos;
+            const warning = along < CROSSING_WARNING_DISTANCE && along > -80;
+            const closed = along < CROSSING_CLOSE_DISTANCE && along > -60;
+
+            crossing.barriers.forEach(b => {
+                const target = closed ? 0 : b.raised;
+                const step = BARRIER_SPEED * delta;
+                b.pivot.rotation.x += THREE.MathUtils.clamp(target - b.pivot.rotation.x, -step, step);
+            });
+
+            const phase = Math.floor(t * 1.5) % 2;
+            crossing.redMats[0].emissiveIntensity = warning && phase === 0 ? 3.0 : 0;
+            crossing.redMats[1].emissiveIntensity = warning && phase === 1 ? 3.0 : 0;
+            crossing.lunarMat.emissiveIntensity = !warning && Math.floor(t) % 2 === 0 ? 1.5 : 0;
+            crossing.glow.intensity = warning ? 1.2 : 0;
+
+            if (!ctx || !master || ctx.state !== 'running') return;
+            if (warning) {
+                if (crossing.nextStrike < ctx.currentTime) crossing.nextStrike = ctx.currentTime + 0.05;
+                while (crossing.nextStrike < ctx.currentTime + 0.1) {
+                    strikeBell(crossing, ctx, master, crossing.nextStrike);
+                    crossing.nextStrike += 1 / BELL_STRIKE_RATE;
+                }
+            }
+            if (crossing.bellGain && crossing.bellPanner) {
+                // The bell hangs on the right-hand mast
+                const lateral = 6.7;
+                const dist = Math.hypot(along, lateral);
+                const level = warning ? 0.4 / (1 + (dist / 35) * (dist / 35)) * (along < 0 ? 0.6 : 1) : 0;
+                crossing.bellGain.gain.setTargetAtTime(level, ctx.currentTime, 0.1);
+                crossing.bellPanner.pan.setTargetAtTime(THREE.MathUtils.clamp(lateral / dist, -1, 1) * 0.9, ctx.currentTime, 0.1);
+            }
+        });
+    }
+
+    function buildStructure(st: TrackStructure) {
+        const parts: THREE.Object3D[] = [];
+        if (st.kind === 'tunnel') createTunnel(st, parts);
+        else if (st.kind === 'bridge') createBridge(st, parts);
+        else if (st.kind === 'overpass') createOverpass(st, parts);
+        else createCrossing(st, parts);
+        activeStructures.push({ structure: st, parts });
+    }
+
+    // 0 in the open, 1 deep inside a tunnel; an overpass casts a brief shadow
+    function getEnclosure(s: number) {
+        const st = track.structureAt(s, 20);
+        if (!st) return 0;
+        if (st.kind === 'tunnel') {
+            return THREE.MathUtils.smoothstep(s, st.start - 10, st.start + 40) * (1 - THREE.MathUtils.smoothstep(s, st.end - 40, st.end + 10));
+        }
+        if (st.kind === 'overpass') {
+            return 0.35 * (1 - THREE.MathUtils.smoothstep(Math.abs(s - (st.start + st.end) / 2), 4, 14));
+        }
+        return 0;
+    }
+
+    // Scenery never grows through a hill, hangs over a valley or stands under a road deck
+    function isInStructureZone(s: number) {
+        return track.structureAt(s, 25) !== null;
+    }
+
+    // --- Traffic on the parallel track ---
+    let traffic: TrafficTrain | null = null;
+    let nextTrafficTime = 12 + trafficRng() * 20;
+    let passShake = 0;
+    let noiseBuffer: AudioBuffer | null = null;
+
+    const headlampMat = new THREE.MeshStandardMaterial({ color: 0xffffee, emissive: 0xffffdd, emissiveIntensity: 2.0 });
+    const bogieMat = new THREE.MeshStandardMaterial({ color: 0x151515, roughness: 0.9, metalness: 0.4 });
+
+    function addBogies(car: THREE.Group, length: number) {
+        [-1, 1].forEach(side => {
+            const bogie = new THREE.Mesh(new THREE.BoxGeometry(2.2, 0.6, 2.6), bogieMat);
+            bogie.position.set(0, 0.4, side * (length / 2 - 2.5));
+            car.add(bogie);
+        });
+    }
+
+    // Passenger-style body; the cab end (if any) faces local -Z
+    function createRailcar(length: number, color: number, windowMat: THREE.Material | null, withCab: boolean) {
+        const car = new THREE.Group();
+        const bodyMat = new THREE.MeshStandardMaterial({ color, roughness: 0.7, metalness: 0.2 });
+        const body = new THREE.Mesh(new THREE.BoxGeometry(2.8, 2.8, length), bodyMat);
+        body.position.y = 2.1;
+        car.add(body);
+        const roof = new THREE.Mesh(new THREE.BoxGeometry(2.5, 0.3, length - 0.4), new THREE.MeshStandardMaterial({ color: 0x4a4a4a, roughness: 0.8 }));
+        roof.position.y = 3.65;
+        car.add(roof);
+        const stripe = new THREE.Mesh(new THREE.BoxGeometry(2.84, 0.18, length), new THREE.MeshStandardMaterial({ color: 0xaa2a1a, roughness: 0.7 }));
+        stripe.position.y = 1.3;
+        car.add(stripe);
+        if (windowMat) {
+            const band = new THREE.Mesh(new THREE.BoxGeometry(2.84, 0.7, length - 3), windowMat);
+            band.position.y = 2.5;
+            car.add(band);
+        }
+        if (withCab) {
+            const top = new THREE.Mesh(new THREE.SphereGeometry(0.18, 8, 8), headlampMat);
+            top.position.set(0, 3.3, -length / 2 - 0.05);
+            car.add(top);
+            [-0.9, 0.9].forEach(x => {
+                const lamp = new THREE.Mesh(new THREE.SphereGeometry(0.12, 8, 8), headlampMat);
+                lamp.position.set(x, 1.0, -length / 2 - 0.05);
+                car.add(lamp);
+            });
+        }
+        addBogies(car, length);
+        return car;
+    }
+
+    function createTankWagon(length: number) {
+        const car = new THREE.Group();
+        const tankMat = new THREE.MeshStandardMaterial({ color: trafficRng() > 0.3 ? 0x1a1a1a : 0x8a8a80, roughness: 0.5, metalness: 0.4 });
+        const tank = new THREE.Mesh(new THREE.CylinderGeometry(1.3, 1.3, length - 1, 14), tankMat);
+        tank.rotation.x = Math.PI / 2;
+        tank.position.y = 2.2;
+        car.add(tank);
+        const dome = new THREE.Mesh(new THREE.CylinderGeometry(0.4, 0.4, 0.5, 10), tankMat);
+        dome.position.y = 3.6;
+        car.add(dome);
+        const frame = new THREE.Mesh(new THREE.BoxGeometry(2.4, 0.3, length), bogieMat);
+        frame.position.y = 0.9;
+        car.add(frame);
+        addBogies(car, length);
+        return car;
+    }
+
+    function createGondola(length: number) {
+        const car = new THREE.Group();
+        const wallMat = new THREE.MeshStandardMaterial({ color: trafficRng() > 0.5 ? 0x5a3a2a : 0x3a4a3a, roughness: 0.95 });
+        const floor = new THREE.Mesh(new THREE.BoxGeometry(2.8, 0.3, length), wallMat);
+        floor.position.y = 1.0;
+        car.add(floor);
+        [-1.35, 1.35].forEach(x => {
+            const wall = new THREE.Mesh(new THREE.BoxGeometry(0.1, 2.0, length), wallMat);
+            wall.position.set(x, 2.1, 0);
+            car.add(wall);
+        });
+        [-1, 1].forEach(side => {
+            const end = new THREE.Mesh(new THREE.BoxGeometry(2.8, 2.0, 0.1), wallMat);
+            end.position.set(0, 2.1, side * length / 2);
+            car.add(end);
+        });
+        // Coal or scrap heaped inside
+        const load = new THREE.Mesh(new THREE.BoxGeometry(2.5, 0.8, length - 0.6), new THREE.MeshStandardMaterial({ color: 0x1c1a18, roughness: 1.0 }));
+        load.position.y = 2.6;
+        car.add(load);
+        addBogies(car, length);
+        return car;
+    }
+
+    function spawnTraffic() {
+        const kinds: TrafficKind[] = ['elektrichka', 'freight', 'express'];
+        const kind = kinds[Math.floor(trafficRng() * kinds.length)];
+        const cars: THREE.Group[] = [];
+        const lengths: number[] = [];
+        let windowMat: THREE.MeshStandardMaterial | null = null;
+        let speedKmh: number;
+
+        if (kind === 'elektrichka') {
+            windowMat = new THREE.MeshStandardMaterial({ color: 0x1a1a18, emissive: 0xfff0c0, emissiveIntensity: 0 });
+            const count = 4 + Math.floor(trafficRng() * 7);
+            for (let i = 0; i < count; i++) {
+                cars.push(createRailcar(20, 0x2e5e3e, windowMat, i === 0));
+                lengths.push(20);
+            }
+            speedKmh = 70 + trafficRng() * 30;
+        } else if (kind === 'express') {
+            windowMat = new THREE.MeshStandardMaterial({ color: 0x1a1a18, emissive: 0xffe0a0, emissiveIntensity: 0 });
+            cars.push(createRailcar(17, 0x2a4f9a, null, true));
+            lengths.push(17);
+            const count = 10 + Math.floor(trafficRng() * 5);
+            for (let i = 0; i < count; i++) {
+                cars.push(createRailcar(24, 0x28443a, windowMat, false));
+                lengths.push(24);
+            }
+            speedKmh = 110 + trafficRng() * 30;
+        } else {
+            const locoColor = trafficRng() > 0.5 ? 0x6a2a22 : 0x2e4a3a;
+            for (let i = 0; i < 2; i++) {
+                cars.push(createRailcar(16, locoColor, null, i === 0));
+                lengths.push(16);
+            }
+            const count = 25 + Math.floor(trafficRng() * 20);
+            for (let i = 0; i < count; i++) {
+                const isTank = trafficRng() > 0.5;
+                cars.push(isTank ? createTankWagon(12) : createGondola(13));
+                lengths.push(isTank ? 12 : 13);
+            }
+            speedKmh = 50 + trafficRng() * 30;
+        }
+
+        // Only something faster than us can overtake
+        const speed = speedKmh / 3.6;
+        const canOvertake = speedKmh > currentSpeedRef.current + 20;
+        // Rolled every time, so the traffic stream does not depend on how we drive
+        const overtakeRoll = trafficRng();
+        const direction: 1 | -1 = canOvertake && overtakeRoll > 0.65 ? 1 : -1;
+
+        const carOffsets: number[] = [];
+        const bogieOffsets: number[] = [];
+        let cursor = 0;
+        lengths.forEach(len => {
+            const centre = cursor + len / 2;
+            carOffsets.push(centre);
+            bogieOffsets.push(centre - (len / 2 - 2.5), centre + (len / 2 - 2.5));
+            cursor += len + 1.0; // coupler gap - what makes the wall strobe
+        });
+
+        const lights: THREE.PointLight[] = [];
+        const headLight = new THREE.PointLight(0xffffdd, 0, 25);
+        headLight.position.set(0, 2.0, -lengths[0] / 2 - 1.5);
+        cars[0].add(headLight);
+        lights.push(headLight);
+
+        cars.forEach(car => {
+            enableShadows(car);
+            world.add(car);
+        });
+        const routePos = routePosRef.current;
+        traffic = {
+            kind,
+            cars,
+            carOffsets,
+            bogieOffsets,
+            length: cursor,
+            headS: direction === 1 ? routePos - TRAFFIC_SPAWN_BEHIND : routePos + TRAFFIC_SPAWN_AHEAD,
+            direction,
+            speed,
+            lights,
+            windowMat,
+            lastBogieRel: bogieOffsets.map(() => NaN),
+        };
+    }
+
+    function removeTraffic() {
+        if (!traffic) return;
+        traffic.cars.forEach(car => {
+            world.remove(car);
+            car.traverse((obj: THREE.Object3D) => {
+                if (obj instanceof THREE.Mesh) {
+                    obj.geometry.dispose();
+                    // headlamp and bogie materials are shared between trains
+                    if (obj.material !== headlampMat && obj.material !== bogieMat) obj.material.dispose();
+                }
+            });
+        });
+        traffic = null;
+    }
+
+    function getNoiseBuffer(ctx: AudioContext) {
+        if (!noiseBuffer) {
+            noiseBuffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+            const data = noiseBuffer.getChannelData(0);
+            for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+        }
+        return noiseBuffer;
+    }
+
+    // Pressure-wave whoosh, panned to the parallel track side
+    function playPassingWhoosh(intensity: number) {
+        const ctx = audioCtxRef.current;
+        const master = masterGainRef.current;
+        if (!ctx || !master || ctx.state !== 'running') return;
+        const time = ctx.currentTime;
+        const src = ctx.createBufferSource();
+        src.buffer = getNoiseBuffer(ctx);
+        const filter = ctx.createBiquadFilter();
+        filter.type = 'bandpass';
+        filter.Q.value = 0.8;
+        filter.frequency.setValueAtTime(300, time);
+        filter.frequency.exponentialRampToValueAtTime(1800, time + 0.25);
+        filter.frequency.exponentialRampToValueAtTime(200, time + 1.2);
+        const gain = ctx.createGain();
+        gain.gain.setValueAtTime(0, time);
+        gain.gain.linearRampToValueAtTime(0.7 * intensity, time + 0.08);
+        gain.gain.exponentialRampToValueAtTime(0.001, time + 1.4);
+        const panner = ctx.createStereoPanner();
+        panner.pan.value = -0.6;
+        src.connect(filter);
+        filter.connect(gain);
+        gain.connect(panner);
+        panner.connect(master);
+        src.start(time);
+        src.stop(time + 1.5);
+    }
+
+    // Wheel-set clatter as each bogie of the passing train goes by
+    function playPassingClatter(intensity: number) {
+        const ctx = audioCtxRef.current;
+        const master = masterGainRef.current;
+        if (!ctx || !master || ctx.state !== 'running') return;
+        const time = ctx.currentTime;
+        const src = ctx.createBufferSource();
+        src.buffer = getNoiseBuffer(ctx);
+        const filter = ctx.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.frequency.value = 900;
+        const gain = ctx.createGain();
+        gain.gain.setValueAtTime(0, time);
+        gain.gain.linearRampToValueAtTime(0.3 * intensity, time + 0.005);
+        gain.gain.exponentialRampToValueAtTime(0.01, time + 0.08);
+        const panner = ctx.createStereoPanner();
+        panner.pan.value = -0.5;
+        src.connect(filter);
+        filter.connect(gain);
+        gain.connect(panner);
+        panner.connect(master);
+        src.start(time, Math.random() * 0.8);
+        src.stop(time + 0.1);
+    }
+
+    function updateTraffic(t: number, delta: number, routePos: number, ourSpeed: number) {
+        if (!traffic) {
+            if (t > nextTrafficTime) spawnTraffic();
+            return;
+        }
+        const train = traffic;
+        train.headS += train.direction * train.speed * delta;
+        const flip = train.direction === 1 ? 0 : Math.PI;
+
+        train.cars.forEach((car, i) => {
+            const p = track.sample(train.headS - train.direction * train.carOffsets[i], placeSample);
+            car.position.set(
+                p.x + Math.cos(p.heading) * PARALLEL_TRACK_OFFSET,
+                p.y,
+                p.z - Math.sin(p.heading) * PARALLEL_TRACK_OFFSET
+            );
+            car.rotation.y = p.heading + flip;
+        });
+
+        const lightLevel = envTargets.current.streetLightIntensity;
+        train.lights.forEach(light => { light.intensity = 1.5 * lightLevel + 0.2; });
+        if (train.windowMat) train.windowMat.emissiveIntensity = 0.4 * lightLevel;
+
+        // Bogies crossing the cab: clatter, and the head brings the pressure wave
+        const closing = Math.abs(train.direction * train.speed - ourSpeed);
+        const intensity = Math.min(1, closing / 40);
+        let alongside = false;
+        train.bogieOffsets.forEach((offset, j) => {
+            const rel = train.headS - train.direction * offset - routePos;
+            const last = train.lastBogieRel[j];
+            if (!Number.isNaN(last) && Math.sign(rel) !== Math.sign(last)) {
+                if (j === 0) {
+                    playPassingWhoosh(intensity);
+                    passShake = Math.max(passShake, intensity);
+                }
+                playPassingClatter(intensity);
+            }
+            if (Math.abs(rel) < 15) alongside = true;
+            train.lastBogieRel[j] = rel;
+        });
+        // Buffeting while the wall of wagons goes by
+        if (alongside) passShake = Math.max(passShake, 0.3 * intensity);
+
+        const headRel = train.headS - routePos;
+        const tailRel = train.headS - train.direction * train.length - routePos;
+        const gone = train.direction === -1
+            ? tailRel < -100
+            : (tailRel > TRAFFIC_SPAWN_AHEAD + 200 || headRel < -TRAFFIC_SPAWN_BEHIND - 1500);
+        if (gone) {
+            removeTraffic();
+            nextTrafficTime = t + 20 + trafficRng() * 40;
+        }
+    }
+
+    // --- Our own train and the camera views around it ---
+    // The cab view is the original driver's seat at the origin. The other views
+    // ride on the cars of our own consist, which is only drawn when seen from
+    // outside (or from another car), and each on-board view brings its own interior
+    const ownWindowMat = new THREE.MeshStandardMaterial({ color: 0x1a1a18, emissive: 0xfff0c0, emissiveIntensity: 0 });
+    const consist: THREE.Group[] = [];
+    const consistOffsets: number[] = [];
+    for (let i = 0; i < OWN_CARS; i++) {
+        const car = createRailcar(OWN_CAR_LENGTH, 0x2e5e3e, ownWindowMat, i === 0 || i === OWN_CARS - 1);
+        enableShadows(car);
+        world.add(car);
+        consist.push(car);
+        consistOffsets.push(OWN_HEAD_OFFSET + i * (OWN_CAR_LENGTH + OWN_CAR_GAP));
+    }
+    const tailCar = consist[OWN_CARS - 1];
+    const sideCar = consist[1];
+
+    // Every car follows the line on its own; the tail car runs reversed so its cab faces back
+    function placeConsist(routePos: number) {
+        consist.forEach((car, i) => {
+            const p = track.sample(routePos - consistOffsets[i], placeSample);
+            car.position.set(p.x, p.y, p.z);
+            car.rotation.y = p.heading + (car === tailCar ? Math.PI : 0);
+        });
+        saloon.position.copy(sideCar.position);
+        saloon.rotation.copy(sideCar.rotation);
+        rearCab.position.copy(tailCar.position);
+        rearCab.rotation.copy(tailCar.rotation);
+    }
+
+    // Interiors are built in car-local space and follow their car around
+    const saloonWallMat = new THREE.MeshStandardMaterial({ color: 0x8a9080, roughness: 0.8 });
+    const saloonTrimMat = new THREE.MeshStandardMaterial({ color: 0x9a9a94, roughness: 0.4, metalness: 0.6 });
+    const benchMat = new THREE.MeshStandardMaterial({ color: 0x6b4a2a, roughness: 0.7 });
+    const saloonFloorMat = new THREE.MeshStandardMaterial({ color: 0x3a3028, roughness: 0.9 });
+    const saloonLampMat = new THREE.MeshStandardMaterial({ color: 0xeeeedd, emissive: 0xfff6dd, emissiveIntensity: 0.8 });
+    const paneMat = new THREE.MeshStandardMaterial({ color: 0x88aaaa, roughness: 0.1, transparent: true, opacity: 0.08, depthWrite: false });
+
+    function addBox(group: THREE.Group, mat: THREE.Material, x: number, y: number, z: number, sx: number, sy: number, sz: number) {
+        const mesh = new THREE.Mesh(new THREE.BoxGeometry(sx, sy, sz), mat);
+        mesh.position.set(x, y, z);
+        group.add(mesh);
+        return mesh;
+    }
+
+    // Passenger saloon: wooden benches facing each other across a window on the right
+    const saloon = new THREE.Group();
+    addBox(saloon, saloonFloorMat, 0, 1.05, 0, 2.7, 0.1, 7);
+    addBox(saloon, saloonWallMat, 0, 3.35, 0, 2.7, 0.1, 7);
+    addBox(saloon, saloonWallMat, -1.35, 2.2, 0, 0.06, 2.3, 7);
+    addBox(saloon, saloonWallMat, 1.35, 1.5, 0, 0.06, 0.9, 7);
+    addBox(saloon, saloonWallMat, 1.35, 3.1, 0, 0.06, 0.5, 7);
+    [-2.2, 0, 2.2].forEach(z => {
+        addBox(saloon, saloonTrimMat, 1.32, 2.55, z, 0.04, 0.04, 1.4);
+        addBox(saloon, paneMat, 1.36, 2.4, z, 0.01, 0.9, 1.4);
+    });
+    [-3.2, -1.1, 1.1, 3.2].forEach(z => addBox(saloon, saloonWallMat, 1.35, 2.4, z, 0.06, 0.9, 0.8));
+    addBox(saloon, saloonTrimMat, 1.3, 1.94, 0, 0.1, 0.04, 7);
+    addBox(saloon, saloonTrimMat, 1.3, 2.86, 0, 0.1, 0.04, 7);
+    [-1, 1].forEach(side => {
+        addBox(saloon, benchMat, 0.7, 1.55, side * 0.95, 1.2, 0.08, 0.45);
+        addBox(saloon, benchMat, 0.7, 1.9, side * 1.2, 1.2, 0.6, 0.06);
+        addBox(saloon, benchMat, 0.7, 1.3, side * 0.95, 1.1, 0.45, 0.06);
+    });
+    // Luggage rack over the window and a strip lamp along the ceiling
+    addBox(saloon, saloonTrimMat, 1.05, 3.0, 0, 0.5, 0.02, 6.5);
+    addBox(saloon, saloonLampMat, 0, 3.28, 0, 0.25, 0.04, 5);
+    const saloonLight = new THREE.PointLight(0xfff0d8, 0, 5);
+    saloonLight.position.set(0, 3.0, 0);
+    saloon.add(saloonLight);
+    world.add(saloon);
+
+    // Tail cab: the unused rear driving position with a twin-pane window looking back
+    const rearCab = new THREE.Group();
+    const rearEnd = -OWN_CAR_LENGTH / 2;
+    addBox(rearCab, saloonFloorMat, 0, 1.05, rearEnd + 1.5, 2.7, 0.1, 3);
+    addBox(rearCab, frameMaterial, 0, 3.4, rearEnd + 1.5, 2.7, 0.1, 3);
+    addBox(rearCab, frameMaterial, 0, 1.65, rearEnd + 0.05, 2.8, 1.1, 0.1);
+    addBox(rearCab, frameMaterial, 0, 3.2, rearEnd + 0.05, 2.8, 0.4, 0.1);
+    [-1.2, 0, 1.2].forEach(x => addBox(rearCab, frameMaterial, x, 2.6, rearEnd + 0.05, x === 0 ? 0.1 : 0.4, 0.8, 0.1));
+    [-1, 1].forEach(side => addBox(rearCab, frameMaterial, side * 1.35, 2.2, rearEnd + 1.5, 0.06, 2.3, 3));
+    addBox(rearCab, dashboardMat, 0, 1.5, rearEnd + 0.45, 2.6, 0.8, 0.7);
+    world.add(rearCab);
+
+    // Free orbit: OrbitControls drive a stand-in camera, which the real one then follows
+    const orbitCamera = new THREE.PerspectiveCamera();
+    orbitCamera.position.set(-14, 9, -16);
+    const orbitControls = new OrbitControls(orbitCamera, renderer.domElement);
+    orbitControls.target.set(0, 2, 12);
+    orbitControls.enableDamping = true;
+    orbitControls.maxDistance = 150;
+    orbitControls.enabled = false;
+    orbitControls.update();
+
+    // Each view's pose is worked out on a stand-in camera so two can be blended
+    const poseCam = new THREE.PerspectiveCamera();
+    const poseTarget = new THREE.Vector3();
+    const fromPosition = new THREE.Vector3();
+    const fromQuaternion = new THREE.Quaternion();
+    const viewSway = new THREE.Vector3();
+    const viewDirection = new THREE.Vector3();
+
+    function getViewPose(view: CameraView, sway: THREE.Vector3, roll: number) {
+        if (view === 'cab') {
+            poseCam.position.set(sway.x, 1.2 + sway.y, 0.8);
+            poseCam.lookAt(pointerOffsetX * 0.5, 1.0 + pointerOffsetY * 0.5, -10);
+        } else if (view === 'side') {
+            poseCam.position.set(0.4 + sway.x * 0.5, 2.1 + sway.y, pointerOffsetX * 0.5);
+            poseTarget.set(10, 1.8 - pointerOffsetY * 4, pointerOffsetX * 8);
+            sideCar.localToWorld(poseCam.position);
+            poseCam.lookAt(sideCar.localToWorld(poseTarget));
+        } else if (view === 'rear') {
+            poseCam.position.set(sway.x, 2.55 + sway.y, rearEnd + 1.6);
+            poseTarget.set(-pointerOffsetX * 10, 2.0 - pointerOffsetY * 10, rearEnd - 40);
+            tailCar.localToWorld(poseCam.position);
+            poseCam.lookAt(tailCar.localToWorld(poseTarget));
+        } else if (view === 'chase') {
+            // Pacing alongside and ahead, looking back at the head car
+            poseCam.position.set(-7 + pointerOffsetX * 6, 4 + pointerOffsetY * 4, -22);
+            poseTarget.set(0, 2, 4);
+            consist[0].localToWorld(poseCam.position);
+            poseCam.lookAt(consist[0].localToWorld(poseTarget));
+        } else {
+            poseCam.position.copy(orbitCamera.position);
+            poseCam.quaternion.copy(orbitCamera.quaternion);
+        }
+        if (view === 'cab' || view === 'side' || view === 'rear') poseCam.rotation.z += roll;
+    }
+
+    // Who is drawn depends on where the camera sits
+    function showView(view: CameraView) {
+        interior.visible = view === 'cab';
+        consist[0].visible = view !== 'cab';
+        sideCar.visible = view !== 'side';
+        saloon.visible = view === 'side';
+        tailCar.visible = view !== 'rear';
+        rearCab.visible = view === 'rear';
+    }
+
+    let activeView: CameraView = cameraViewRef.current;
+    let previousView: CameraView = activeView;
+    let viewBlend = 1;
+    let shownView: CameraView = activeView;
+    showView(activeView);
+    // How much of the line has to exist behind the cab for the view to look complete
+    let viewBehind = VIEW_BEHIND[activeView];
+
+    // Scenery slots, rolled from the biome mix a chunk was first generated in
+    type SceneSlot = 'near' | 'far' | 'accent' | 'person' | 'lamp';
+
+    function rollProp(rng: Rng, slot: SceneSlot, mix: BiomeMix): PropKind {
+        // During a transition the previous biome still wins some rolls
+        const biome = BIOMES[rng() < mix.blend ? mix.biome : mix.prevBiome];
+        if (slot === 'person') return rng() < biome.peopleChance ? 'person' : 'none';
+        if (slot === 'lamp') return rng() < biome.streetLightChance ? 'streetLight' : 'none';
+        return pickProp(rng, biome[slot]);
+    }
+
+    function spawnProp(kind: PropKind, rng: Rng, x: number, s: number) {
+        switch (kind) {
+            case 'panelHouse': return createPanelHouse(rng, x, s);
+            case 'factory': return createFactory(rng, x, s);
+            case 'dacha': return createDacha(rng, x, s);
+            case 'tree': return createTree(rng, x, s);
+            case 'birch': return createBirch(rng, x, s);
+            case 'pine': return createPine(rng, x, s);
+            case 'person': return createPerson(rng, x, s);
+            default: return createStreetLight(rng, x, s);
+        }
+    }
+
+    function releaseObject(obj: THREE.Object3D) {
+        obj.traverse((child: THREE.Object3D) => {
+            if (child instanceof THREE.PointLight) {
+                streetLightsRef.current = streetLightsRef.current.filter(l => l !== child);
+            }
+            if (child instanceof THREE.Mesh) {
+                snowCapsRef.current = snowCapsRef.current.filter(c => c !== child);
+                stationWindowMatsRef.current = stationWindowMatsRef.current.filter(m => m !== child.material);
+            }
+        });
+        world.remove(obj);
+        disposeObject(obj);
+    }
+
+    // --- Scenery streaming ---
+    const chunks: SceneryChunk[] = [];
+    let nextChunkIndex = Math.floor(-viewBehind / CHUNK_LENGTH);
+
+    // Props placed outside the generator (station passengers) live and die with a chunk
+    function addChunkProp(prop: SceneryProp, s: number) {
+        const chunk = chunks.find(c => c.index === Math.floor(s / CHUNK_LENGTH));
+        if (chunk) chunk.props.push(prop);
+        else removeProp(prop);
+    }
+
+    // Each chunk draws from its own stream and keeps the biome mix it was first
+    // built in, so a view looking back rebuilds exactly what the train passed
+    // and the rest of the journey does not depend on camera use
+    const chunkBiomes = new Map<number, BiomeMix>();
+    const maxViewBehind = Math.max(...Object.values(VIEW_BEHIND));
+
+    function buildChunk(index: number): SceneryChunk {
+        const s0 = index * CHUNK_LENGTH;
+        const rng = createRng(`${seed}:chunk:${index}`);
+        const mix = chunkBiomes.get(index) ?? { biome: biomeRef.current, prevBiome: prevBiomeRef.current, blend: biomeBlendRef.current };
+        chunkBiomes.set(index, mix);
+        const ground = groundPool.pop() ?? createGroundTile();
+        layGroundTile(ground, s0);
+        world.add(ground);
+
+        const props: SceneryProp[] = [];
+        const density = QUALITY_SETTINGS[qualityRef.current].sceneryDensity;
+        // Scenery never grows through a hill, hangs over a valley or blocks a platform.
+        // Lower presets leave out some of the backdrop, accents and people; each slot
+        // rolls from its own stream, so a dropped prop never shifts the ones after it
+        let slotCount = 0;
+        const rollSlot = (slot: SceneSlot, x: number, s: number) => {
+            const slotRng = createRng(`${seed}:chunk:${index}:${slotCount++}`);
+            if (isInStructureZone(s) || (x > 0 && isInStationZone(s))) return;
+            if (slot !== 'near' && slot !== 'lamp' && slotRng() > density) return;
+            const kind = rollProp(slotRng, slot, mix);
+            if (kind !== 'none') props.push(spawnProp(kind, slotRng, x, s));
+        };
+        for (let row = Math.ceil(s0 / ROW_SPACING); row * ROW_SPACING < s0 + CHUNK_LENGTH; row++) {
+            const s = row * ROW_SPACING;
+            const leftX = -8 - rng() * 6;
+            const rightX = 8 + rng() * 6;
+            rollSlot('near', leftX, s + 1 - rng() * 2);
+            rollSlot('near', rightX, s - rng() * 2);
+            if (rng() > 0.5) {
+                rollSlot('person', leftX + (rng() > 0.5 ? 1.5 : -1.5), s - rng());
+            }
+            if (row % 3 === 0) {
+                rollSlot('far', rng() > 0.5 ? -14 - rng() * 5 : 14 + rng() * 5, s + 2);
+            }
+            // A deeper backdrop belt behind the far slots
+            if (row % 2 === 0) {
+                rollSlot('far', (rng() > 0.5 ? -1 : 1) * (22 + rng() * 18), s - rng() * 3);
+            }
+            // Catenary masts would stand in mid-air beside the trusses
+            if (row % 5 === 0 && track.structureAt(s, 5)?.kind !== 'bridge') {
+                props.push(createPoleSpan(s));
+            }
+            if (row % 8 === 0) {
+                const lightX = rng() > 0.5 ? -3 + PARALLEL_TRACK_OFFSET : 3;
+                rollSlot('lamp', lightX, s);
+                if (rng() > 0.6) rollSlot('person', lightX + (rng() - 0.5), s);
+            }
+            if (rng() > 0.3) {
+                rollSlot('accent', (rng() > 0.5 ? -1 : 1) * (5 + rng() * 10), s - rng() * 2);
+            }
+        }
+        return { index, ground, props };
+    }
+
+    function releaseChunk(chunk: SceneryChunk) {
+        // No view looks back this far: the chunk will not be rebuilt
+        chunkBiomes.delete(chunk.index - Math.ceil(maxViewBehind / CHUNK_LENGTH));
+        world.remove(chunk.ground);
+        groundPool.push(chunk.ground);
+        chunk.props.forEach(removeProp);
+    }
+
+    function streamScenery(routePos: number) {
+        while (chunks.length && (chunks[0].index + 1) * CHUNK_LENGTH < routePos - viewBehind) {
+            releaseChunk(chunks.shift()!);
+        }
+        // A view looking back needs scenery that has already been released: fill it in again
+        const firstIndex = Math.floor((routePos - viewBehind) / CHUNK_LENGTH);
+        while (chunks.length && chunks[0].index > firstIndex) chunks.unshift(buildChunk(chunks[0].index - 1));
+        const chunksAhead = Math.ceil(QUALITY_SETTINGS[qualityRef.current].drawDistance / CHUNK_LENGTH);
+        const lastIndex = Math.floor(routePos / CHUNK_LENGTH) + chunksAhead;
+        while (nextChunkIndex <= lastIndex) chunks.push(buildChunk(nextChunkIndex++));
+    }
+
+    streamScenery(routePosRef.current);
+
+    // --- Thunderstorm: lightning flashes, thunder delayed by the strike distance ---
+    let nextLightning = 0;
+    let lightningFlash = 0;
+    const lightningPulses: { time: number, strength: number }[] = [];
+    const flashColor = new THREE.Color(0xc8d4ff);
+    let thunderBuffer: AudioBuffer | null = null;
+
+    function playThunder(distanceKm: number) {
+        const ctx = audioCtxRef.current;
+        const master = masterGainRef.current;
+        if (!ctx || !master || ctx.state !== 'running') return;
+        if (!thunderBuffer) {
+            // Brown noise: a random walk gives the deep rolling body
+            thunderBuffer = ctx.createBuffer(1, ctx.sampleRate * 6, ctx.sampleRate);
+            const data = thunderBuffer.getChannelData(0);
+            let last = 0;
+            for (let i = 0; i < data.length; i++) {
+                last = (last + 0.02 * (Math.random() * 2 - 1)) / 1.02;
+                data[i] = last * 3.5;
+            }
+        }
+        const start = ctx.currentTime + (distanceKm * 1000) / 343;
+        const near = 1 - Math.min(1, distanceKm / 7.3);
+        const src = ctx.createBufferSource();
+        src.buffer = thunderBuffer;
+        src.playbackRate.value = 0.7 + Math.random() * 0.3;
+        // Distance strips the highs: close strikes crack, far ones only rumble
+        const filter = ctx.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.frequency.value = 150 + near * 900;
+        const gain = ctx.createGain();
+        gain.gain.setValueAtTime(0, start);
+        gain.gain.linearRampToValueAtTime(0.3 + near * 0.7, start + (near > 0.6 ? 0.02 : 0.4));
+        gain.gain.exponentialRampToValueAtTime(0.001, start + 3 + (1 - near) * 2);
+        src.connect(filter);
+        filter.connect(gain);
+        gain.connect(master);
+        src.start(start);
+        src.stop(start + 5.5);
+    }
+
+    function triggerLightning(t: number) {
+        const distanceKm = 0.3 + Math.random() * 7;
+        const strength = 1.2 / (1 + distanceKm * 0.5);
+        lightningPulses.push({ time: t, strength });
+        const restrikes = Math.floor(Math.random() * 3);
+        for (let k = 1; k <= restrikes; k++) {
+            lightningPulses.push({ time: t + k * (0.06 + Math.random() * 0.12), strength: strength * (0.4 + Math.random() * 0.5) });
+        }
+        lightning.position.set((Math.random() - 0.5) * 80, 40, -20 - Math.random() * 60);
+        playThunder(distanceKm);
+    }
+
+    function getLightningFlash(t: number) {
+        let flash = 0;
+        for (let i = lightningPulses.length - 1; i >= 0; i--) {
+            const age = t - lightningPulses[i].time;
+            if (age > 1) lightningPulses.splice(i, 1);
+            else if (age >= 0) flash += lightningPulses[i].strength * Math.exp(-age * 18);
+        }
+        return flash;
+    }
+
+    // Precipitation motion eases between weathers like the rest of the environment
+    let rainSpeed = envTargets.current.rainSpeed;
+    let snowSpeed = envTargets.current.snowSpeed;
+    let windSpeed = envTargets.current.wind;
+    const snowFlow = new THREE.Vector3();
+    let wiperPhase = 0;
+    let lastWiperAngle = -1.0;
+
+    // --- Post-processing ---
+    // The scene renders into half-float targets so bright lamps can bloom, then
+    // gets display-encoded before the CRT pass
+    const composerTarget = new THREE.WebGLRenderTarget(bufferSize.x, bufferSize.y, { type: THREE.HalfFloatType, samples: QUALITY_SETTINGS[qualityRef.current].msaa });
+    const composer = new EffectComposer(renderer, composerTarget);
+    composer.addPass(new RenderPass(scene, camera));
+    const bloomPass = new UnrealBloomPass(new THREE.Vector2(width, height), 0.8, 0.4, 0.85);
+    composer.addPass(bloomPass);
+    const persistencePass = new AfterimagePass(0.7);
+    composer.addPass(persistencePass);
+    composer.addPass(new OutputPass());
+    const crtPass = new ShaderPass(CRT_SHADER);
+    composer.addPass(crtPass);
+    composer.setSize(width, height);
+
+    const applyPostFx = (time: number) => {
+      const fx = postFxRef.current;
+      const preset = QUALITY_SETTINGS[qualityRef.current];
+      bloomPass.enabled = fx.bloom.enabled && preset.bloom;
+      bloomPass.strength = fx.bloom.amount * 1.6;
+      persistencePass.enabled = fx.persistence.enabled && preset.persistence;
+      persistencePass.uniforms.damp.value = 0.6 + fx.persistence.amount * 0.32;
+      const crt = crtPass.uniforms;
+      crt.uTime.value = time;
+      crt.uLines.value = (container.clientHeight || window.innerHeight) / 2;
+      crt.uChroma.value = fx.chroma.enabled ? fx.chroma.amount * 0.012 : 0;
+      crt.uBarrel.value = fx.barrel.enabled ? fx.barrel.amount * 0.5 : 0;
+      crt.uScanlines.value = fx.scanlines.enabled ? fx.scanlines.amount * 0.6 : 0;
+      crt.uGrain.value = fx.grain.enabled ? fx.grain.amount * 0.12 : 0;
+    };
+
+    // --- Quality ---
+    // Preset changes are picked up by the render loop. The pixel ratio is the
+    // preset's cap times the dynamic resolution scale; particles are drawn from
+    // the front of their buffers, and scenery and fog follow the draw distance
+    // as new chunks stream in
+    const resolutionGovernor = createResolutionGovernor();
+    let appliedQuality: QualityPreset | null = null;
+    let lastPerformanceReport = 0;
+
+    const resizeBuffers = () => {
+      const newWidth = container.clientWidth || window.innerWidth;
+      const newHeight = container.clientHeight || window.innerHeight;
+      const pixelRatio = Math.min(window.devicePixelRatio, QUALITY_SETTINGS[qualityRef.current].pixelRatio) * resolutionGovernor.scale();
+      camera.aspect = newWidth / newHeight;
+      camera.updateProjectionMatrix();
+      renderer.setPixelRatio(pixelRatio);
+      renderer.setSize(newWidth, newHeight);
+      composer.setPixelRatio(pixelRatio);
+      composer.setSize(newWidth, newHeight);
+      renderer.getDrawingBufferSize(glassMat.uniforms.uResolution.value);
+      behindGlass.setSize(Math.ceil(glassMat.uniforms.uResolution.value.x / 2), Math.ceil(glassMat.uniforms.uResolution.value.y / 2));
+      snowMat.uniforms.uScale.value = glassMat.uniforms.uResolution.value.y / 2;
+    };
+
+    const applyQuality = (time: number, delta: number) => {
+      const preset = QUALITY_SETTINGS[qualityRef.current];
+      let resize = resolutionGovernor.update(delta, targetFpsRef.current, autoResolutionRef.current);
+      if (appliedQuality !== qualityRef.current) {
+          appliedQuality = qualityRef.current;
+          camera.far = preset.drawDistance;
+          // Short far planes would clip the sky: pull the star field in with
+          // them, shrinking the points so they keep their size on screen
+          const starScale = Math.min(1, (preset.drawDistance * 0.8) / starReach);
+          stars.scale.setScalar(starScale);
+          starsMat.size = starSize * starScale;
+          rainGeo.setDrawRange(0, Math.floor(rainCount * preset.particles) * 2);
+          snowGeo.setDrawRange(0, Math.floor(snowCount * preset.particles));
+          [composer.renderTarget1, composer.renderTarget2].forEach(target => {
+              target.samples = preset.msaa;
+              target.dispose();
+          });
+          resize = true;
       }
-      if (i % 6 === 0) {
-        const fx = Math.random() > 0.5 ? -14 - Math.random() * 5 : 14 + Math.random() * 5;
-        createFactory(fx, z - 2);
+      if (resize) resizeBuffers();
+      if (onPerformanceRef.current && time - lastPerformanceReport > 1) {
+          lastPerformanceReport = time;
+          onPerformanceRef.current({ fps: resolutionGovernor.fps(), resolution: resolutionGovernor.scale() });
       }
-      if (i % 5 === 0) createPoleSpan(z);
-      if (i % 8 === 0) {
-        const lightX = Math.random() > 0.5 ? -3 : 3;
-        createStreetLight(lightX, z);
-        if (Math.random() > 0.6) createPerson(lightX + (Math.random()-0.5), z);
+    };
+
+    // --- Shadows ---
+    // The sun's shadow camera rides with the view, centred a little way in
+    // front of it, so the whole map is spent on what can be seen. Lamp shadows
+    // come from a fixed pool of shadow-casting lights that stand in for the
+    // nearest lit street lamps, re-picked a few times a second; the number of
+    // casting lights never changes, so materials do not recompile as they move
+    let appliedShadowQuality: ShadowQuality | null = null;
+    let lampShadowCheck = 0;
+    let streetLightLevel = 0;
+    const lampShadowPool: { light: THREE.PointLight, lamp: THREE.PointLight | null }[] = [];
+    const lampPosition = new THREE.Vector3();
+    const shadowFocus = new THREE.Vector3();
+
+    const applyShadows = (time: number) => {
+      const tier = SHADOW_TIERS[shadowQualityRef.current];
+      if (appliedShadowQuality !== shadowQualityRef.current) {
+          appliedShadowQuality = shadowQualityRef.current;
+          const enabled = tier.mapSize > 0;
+          renderer.shadowMap.enabled = enabled;
+          dir.castShadow = enabled;
+          dir.shadow.map?.dispose();
+          dir.shadow.map = null;
+          if (enabled) {
+              dir.shadow.mapSize.set(tier.mapSize, tier.mapSize);
+              const cam = dir.shadow.camera;
+              cam.left = -tier.extent;
+              cam.right = tier.extent;
+              cam.top = tier.extent;
+              cam.bottom = -tier.extent;
+              cam.updateProjectionMatrix();
+          }
+          lampShadowPool.splice(0).forEach(({ light }) => {
+              world.remove(light);
+              light.dispose();
+          });
+          for (let i = 0; i < tier.lampShadows; i++) {
+              const light = new THREE.PointLight(0xffaa00, 0, 8);
+              light.castShadow = true;
+              light.shadow.mapSize.set(tier.lampMapSize, tier.lampMapSize);
+              world.add(light);
+              lampShadowPool.push({ light, lamp: null });
+          }
+          lampShadowCheck = 0;
+          // Materials compile shadow support in or out
+          scene.traverse((obj) => {
+              if (obj instanceof THREE.Mesh) {
+                  const mats = Array.isArray(obj.material) ? obj.material : [obj.material];
+                  mats.forEach((m: THREE.Material) => { m.needsUpdate = true; });
+              }
+          });
       }
-      if (Math.random() > 0.3) {
-         const tx = (Math.random() > 0.5 ? -1 : 1) * (5 + Math.random() * 10);
-         createTree(tx, z + Math.random() * 2);
+      // Fit the map to the ground in front of whichever view is active
+      camera.getWorldDirection(shadowFocus);
+      shadowFocus.y = 0;
+      shadowFocus.normalize().multiplyScalar(tier.extent * 0.6).add(camera.position);
+      dir.target.position.set(shadowFocus.x, 0, shadowFocus.z);
+      dir.position.copy(dir.target.position).add(sunOffset);
+
+      if (lampShadowPool.length && time >= lampShadowCheck) {
+          lampShadowCheck = time + 0.3;
+          const nearest = streetLightLevel > 0.3
+              ? streetLightsRef.current
+                  .filter(light => light.visible && light.parent)
+                  .map(light => ({ light, dist: light.getWorldPosition(lampPosition).distanceToSquared(camera.position) }))
+                  .sort((a, b) => a.dist - b.dist)
+              : [];
+          lampShadowPool.forEach((entry, i) => { entry.lamp = nearest[i]?.light ?? null; });
       }
-    }
+      // Shadow lights follow their lamps, which ride along with the world
+      lampShadowPool.forEach(entry => {
+          if (entry.lamp && (!entry.lamp.visible || !entry.lamp.parent)) entry.lamp = null;
+          entry.light.intensity = entry.lamp ? streetLightLevel : 0;
+          if (!entry.lamp) return;
+          entry.light.color.copy(entry.lamp.color);
+          entry.light.distance = entry.lamp.distance;
+          entry.light.position.copy(world.worldToLocal(entry.lamp.getWorldPosition(lampPosition)));
+      });
+      renderer.shadowMap.needsUpdate = renderer.shadowMap.enabled;
+    };
+
+    // Captures come straight off the canvas, so they carry the full post chain
+    const saveCapture = () => {
+      renderer.domElement.toBlob(blob => {
+        if (!blob) return;
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = `szd-${seed}-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}.png`;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+      });
+    };
+
+    // --- Train dynamics ---
+    // Speed comes out of the force balance in utils/trainDynamics; the automatic
+    // driver or the user only choose traction and brake demands
+    const dynamics = createDynamicsState(currentSpeedRef.current);
+    // The overhead supply answers the current drawn on the previous step
+    const catenary = createCatenary(seed, routeRef.current);
+    let lineVoltage = NO_LOAD_VOLTAGE;
+    let arcing = false;
+
+    const runDynamics = (delta: number, traction: number, brake: number, emergency: boolean) => {
+      const supply = catenary.update(delta, routePosRef.current, dynamics.lineCurrent, currentSpeedRef.current, weatherRef.current === 'sleet');
+      lineVoltage = supply.voltage;
+      arcing = supply.arcing;
+      stepDynamics(dynamics, {
+          traction,
+          brake,
+          emergency,
+          grade: trainSample.grade,
+          adhesion: RAIL_ADHESION[weatherRef.current],
+          voltage: lineVoltage,
+      }, delta);
+      currentSpeedRef.current = dynamics.speed * 3.6;
+    };
+
+    // --- Driver mode ---
+    // The controller and brake valve set the demands. The safety device can
+    // override the valve: a service application for overspeed, and penalty
+    // braking to a stand when the vigilance handle is ignored. Traction is cut
+    // whenever the brakes are on
+    const safetyDevice = createSafetyDevice();
+    let brakeLevel = 0;
+    let wasDriving = false;
+    let whistleOn = false;
+    let lastDriverReport = 0;
+
+    const driveTrain = (t: number, delta: number, stopCap: number, limitKmh: number) => {
+      if (vigilanceRequestedRef.current) {
+          vigilanceRequestedRef.current = false;
+          safetyDevice.acknowledge(currentSpeedRef.current);
+      }
+      const safety = safetyDevice.update(delta, currentSpeedRef.current, limitKmh);
+
+      let valve = brakeValveRef.current;
+      if (safety.vigilance === 'braking') valve = 'emergency';
+      else if (safety.overspeed === 'braking' && valve !== 'emergency') valve = 'service';
+      if (valve === 'emergency') brakeLevel = Math.min(1, brakeLevel + delta);
+      else if (valve === 'service') brakeLevel = Math.min(1, brakeLevel + delta * 0.25);
+      else if (valve === 'run') brakeLevel = Math.max(0, brakeLevel - delta * 0.2);
+      else if (valve === 'release') brakeLevel = Math.max(0, brakeLevel - delta * 0.6);
+
+      // Standing at a platform the doors are open and the brakes held on
+      const holding = stopCap === 0;
+      const notch = holding || brakeLevel > 0.05 ? 0 : controllerNotchRef.current;
+      runDynamics(delta, notch / CONTROLLER_NOTCHES, holding ? 1 : brakeLevel, valve === 'emergency');
+      if (trainStateRef.current !== 'dwell') trainStateRef.current = brakeLevel > 0.05 ? 'braking' : 'running';
+
+      setSafetyWhistle(safety.vigilance === 'warning' || safety.overspeed === 'warning');
+      if (onDriverStatusRef.current && t - lastDriverReport > PROGRESS_REPORT_INTERVAL) {
+          lastDriverReport = t;
+          onDriverStatusRef.current({
+              ...safety,
+              speedKmh: currentSpeedRef.current,
+              limitKmh,
+              brakeLevel,
+              slipping: dynamics.slipping,
+              sliding: dynamics.sliding,
+          });
+      }
+    };
+
+    // Leaving driver mode hands back a released train with a quiet safety device
+    const releaseDriver = () => {
+      safetyDevice.reset();
+      brakeLevel = 0;
+      vigilanceRequestedRef.current = false;
+      if (trainStateRef.current === 'braking') trainStateRef.current = 'running';
+      setSafetyWhistle(false);
+    };
+
+    const setSafetyWhistle = (on: boolean) => {
+      const ctx = audioCtxRef.current;
+      if (on === whistleOn || !ctx || !safetyWhistleGainRef.current) return;
+      whistleOn = on;
+      safetyWhistleGainRef.current.gain.setTargetAtTime(on ? 0.12 : 0, ctx.currentTime, 0.03);
+    };
+
+    // Needles sweep clockwise through 270 degrees from the bottom left of the dial
+    const gaugeReadings = [0.5, 0.8, 0, 0];
+    const setNeedle = (index: number, ratio: number, jitter: number) => {
+      const clamped = Math.max(0, Math.min(1, ratio));
+      gaugeNeedlesRef.current[index].rotation.z = Math.PI * 0.75 - clamped * Math.PI * 1.5 + jitter;
+    };
 
     // --- Animation Loop ---
     const clock = new THREE.Clock();
     let frameId: number;
     let pointerOffsetX = 0;
     let pointerOffsetY = 0;
+    let bodyLean = 0;
+
+    // Dragging across the glass rubs a patch of frost or mist away
+    const glassRay = new THREE.Raycaster();
+    const glassPointer = new THREE.Vector2();
+    let rubbing = false;
+    const rubGlass = (e: PointerEvent) => {
+      glassPointer.set((e.clientX / window.innerWidth) * 2 - 1, -(e.clientY / window.innerHeight) * 2 + 1);
+      glassRay.setFromCamera(glassPointer, camera);
+      const hit = glassRay.intersectObject(glass)[0];
+      if (hit && hit.uv) windscreen.rub(hit.uv.x, hit.uv.y);
+    };
 
     const onPointerMove = (e: PointerEvent) => {
       const nx = e.clientX / window.innerWidth - 0.5;
       const ny = e.clientY / window.innerHeight - 0.5;
       pointerOffsetX = nx * 0.3;
       pointerOffsetY = ny * 0.1;
+      if (rubbing) rubGlass(e);
     };
+    const onPointerDown = (e: PointerEvent) => {
+      if (activeView !== 'cab') return;
+      rubbing = true;
+      rubGlass(e);
+    };
+    const onPointerUp = () => { rubbing = false; };
     window.addEventListener("pointermove", onPointerMove);
+    renderer.domElement.addEventListener("pointerdown", onPointerDown);
+    window.addEventListener("pointerup", onPointerUp);
 
-    const wrapDistance = totalObjects * spacing;
+    const fogShade = new THREE.Color();
     const frontLimit = 5;
 
     const animate = () => {
@@ -1247,49 +4054,65 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
 
       const lerpSpeed = delta * 1.5; 
       const targets = envTargets.current;
+      const enclosure = getEnclosure(routePosRef.current);
+      const outside = 1 - 0.9 * enclosure;
+
+      if (weatherRef.current === 'thunderstorm' && t > nextLightning) {
+          if (nextLightning > 0) triggerLightning(t);
+          nextLightning = t + 4 + Math.random() * 12;
+      }
+      lightningFlash = getLightningFlash(t);
+      lightning.intensity = lightningFlash * 4 * outside;
 
       if (sceneRef.current) {
           if (sceneRef.current.fog instanceof THREE.FogExp2) {
-             sceneRef.current.fog.color.lerp(targets.fogColor, lerpSpeed);
-             sceneRef.current.fog.density = THREE.MathUtils.lerp(sceneRef.current.fog.density, targets.fogDensity, lerpSpeed);
+             sceneRef.current.fog.color.lerp(fogShade.copy(targets.fogColor).multiplyScalar(outside), lerpSpeed);
+             // Never thinner than it takes to hide the far plane
+             const fogFloor = 1.6 / QUALITY_SETTINGS[qualityRef.current].drawDistance;
+             sceneRef.current.fog.density = THREE.MathUtils.lerp(sceneRef.current.fog.density, Math.max(targets.fogDensity, fogFloor), lerpSpeed);
              if (sceneRef.current.background instanceof THREE.Color) {
-                 sceneRef.current.background.copy(sceneRef.current.fog.color);
+                 sceneRef.current.background.copy(sceneRef.current.fog.color).lerp(flashColor, Math.min(1, lightningFlash) * 0.5 * outside);
              }
           }
 
           if (ambientLightRef.current) {
-              ambientLightRef.current.intensity = THREE.MathUtils.lerp(ambientLightRef.current.intensity, targets.ambientIntensity, lerpSpeed);
+              ambientLightRef.current.intensity = THREE.MathUtils.lerp(ambientLightRef.current.intensity, targets.ambientIntensity * outside, lerpSpeed);
           }
 
           if (dirLightRef.current) {
-              dirLightRef.current.intensity = THREE.MathUtils.lerp(dirLightRef.current.intensity, targets.dirIntensity, lerpSpeed);
+              dirLightRef.current.intensity = THREE.MathUtils.lerp(dirLightRef.current.intensity, targets.dirIntensity * outside, lerpSpeed);
               dirLightRef.current.color.lerp(targets.dirColor, lerpSpeed);
+              sunOffset.lerp(targets.dirPosition, lerpSpeed);
           }
 
           if (interiorLightRef.current) {
-              interiorLightRef.current.intensity = THREE.MathUtils.lerp(interiorLightRef.current.intensity, targets.interiorIntensity, lerpSpeed);
+              // Cab lights stay up in tunnels
+              const interiorTarget = Math.max(targets.interiorIntensity, 0.35 * enclosure);
+              interiorLightRef.current.intensity = THREE.MathUtils.lerp(interiorLightRef.current.intensity, interiorTarget, lerpSpeed);
               interiorLightRef.current.color.lerp(targets.interiorColor, lerpSpeed);
           }
 
+          streetLightLevel = THREE.MathUtils.lerp(streetLightLevel, targets.streetLightIntensity, lerpSpeed);
+          // A lamp lent to a shadow light is lit by that light instead
           streetLightsRef.current.forEach(light => {
-              light.intensity = THREE.MathUtils.lerp(light.intensity, targets.streetLightIntensity, lerpSpeed);
+              light.intensity = lampShadowPool.some(entry => entry.lamp === light) ? 0 : streetLightLevel;
+          });
+          windowDarkness.value = THREE.MathUtils.lerp(windowDarkness.value, targets.windowDarkness, lerpSpeed);
+          windowHour.value = targets.windowHour;
+          stationWindowMatsRef.current.forEach(mat => {
+              mat.emissiveIntensity = THREE.MathUtils.lerp(mat.emissiveIntensity, targets.streetLightIntensity * 0.6, lerpSpeed);
           });
 
-          if (rainSystemRef.current && rainSystemRef.current.material instanceof THREE.PointsMaterial) {
-              const currentOp = rainSystemRef.current.material.opacity;
-              rainSystemRef.current.material.opacity = THREE.MathUtils.lerp(currentOp, targets.rainOpacity, lerpSpeed);
-          }
-          if (snowSystemRef.current && snowSystemRef.current.material instanceof THREE.PointsMaterial) {
-              const currentOp = snowSystemRef.current.material.opacity;
-              snowSystemRef.current.material.opacity = THREE.MathUtils.lerp(currentOp, targets.snowOpacity, lerpSpeed);
-          }
+          rainMat.uniforms.uOpacity.value = THREE.MathUtils.lerp(rainMat.uniforms.uOpacity.value, targets.rainOpacity * (1 - enclosure), lerpSpeed);
+          snowMat.uniforms.uOpacity.value = THREE.MathUtils.lerp(snowMat.uniforms.uOpacity.value, targets.snowOpacity * (1 - enclosure), lerpSpeed);
           if (starsRef.current && starsRef.current.material instanceof THREE.PointsMaterial) {
               const currentOp = starsRef.current.material.opacity;
-              starsRef.current.material.opacity = THREE.MathUtils.lerp(currentOp, targets.starOpacity, lerpSpeed);
+              starsRef.current.material.opacity = THREE.MathUtils.lerp(currentOp, targets.starOpacity * (1 - enclosure), lerpSpeed);
           }
 
           if (groundRef.current && groundRef.current.material instanceof THREE.MeshStandardMaterial) {
-              groundRef.current.material.color.lerp(targets.groundColor, lerpSpeed);
+              // Ground repaints slowly so a region change reads as a gradual transition
+              groundRef.current.material.color.lerp(targets.groundColor, lerpSpeed * 0.15);
               groundRef.current.material.roughness = THREE.MathUtils.lerp(groundRef.current.material.roughness, targets.groundRoughness, lerpSpeed);
           }
 
@@ -1300,91 +4123,255 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
           });
 
           gaugeMaterialsRef.current.forEach(mat => {
-              mat.emissiveIntensity = THREE.MathUtils.lerp(mat.emissiveIntensity, targets.instrumentEmission, lerpSpeed);
+              mat.emissiveIntensity = THREE.MathUtils.lerp(mat.emissiveIntensity, Math.max(targets.instrumentEmission, 3.0 * enclosure), lerpSpeed);
           });
       }
 
       // --- SPEED & SIGN LOGIC ---
       activeSignsRef.current.forEach(signData => {
-          if (!signData.passed && signData.mesh.position.z > 0.8) {
+          if (!signData.passed && signData.mesh.userData.trackS - routePosRef.current < -0.8) {
               signData.passed = true;
               targetSpeedRef.current = signData.limit;
           }
       });
-      activeSignsRef.current = activeSignsRef.current.filter(s => s.mesh.position.z < frontLimit); 
+      activeSignsRef.current = activeSignsRef.current.filter(s => s.mesh.userData.trackS - routePosRef.current > -frontLimit); 
+
+      // --- BLOCK SIGNALS ---
+      // Each signal passed sets the speed until the next; the one ahead is
+      // repeated in the cab, and a more restrictive code asks for vigilance
+      blocks.update(delta);
+      while (signalPosition(nextSignalIndex) - routePosRef.current < SIGNAL_SPAWN_DISTANCE) {
+          createBlockSignal(nextSignalIndex, -(signalPosition(nextSignalIndex) - routePosRef.current));
+          nextSignalIndex++;
+      }
+      for (let i = blockSignals.length - 1; i >= 0; i--) {
+          if (!blockSignals[i].mesh.parent) blockSignals.splice(i, 1);
+          else showAspect(blockSignals[i], blocks.aspectAt(blockSignals[i].index));
+      }
+      const currentBlock = blockAt(routePosRef.current);
+      if (currentBlock !== lastBlock) {
+          lastBlock = currentBlock;
+          passedAspect = blocks.aspectAt(currentBlock);
+          if (passedAspect === 'red' && driverModeRef.current && currentSpeedRef.current > 1) safetyDevice.trip();
+      }
+      const cabSignal = getCabSignal(blocks.aspectAt(currentBlock + 1), passedAspect === 'red');
+      if (cabSignal !== shownCabSignal) {
+          if (driverModeRef.current && CAB_SIGNALS.indexOf(cabSignal) > CAB_SIGNALS.indexOf(shownCabSignal)) safetyDevice.demandCheck();
+          shownCabSignal = cabSignal;
+          showCabSignal(cabSignal);
+      }
+      const lineLimit = Math.min(targetSpeedRef.current, ASPECT_SPEED[passedAspect]);
+
+      while (nextPicket * PICKET_SPACING - lineMetreAt(routePosRef.current) < MARKER_SPAWN_DISTANCE) {
+          createLineMarker(nextPicket, -(nextPicket * PICKET_SPACING - lineMetreAt(routePosRef.current)));
+          nextPicket++;
+      }
+
+      // --- ROUTE & STATION STOPS ---
+      const route = routeRef.current;
+      const stop = route.stations[stopIndexRef.current];
+      let stopCap = Infinity;
+      let distToStop = Infinity;
+      if (stop) {
+          distToStop = (stop.km - route.startKm) * 1000 - routePosRef.current;
+          if (spawnedStationIndex < stopIndexRef.current && distToStop < STATION_SPAWN_DISTANCE) {
+              createStationStop(stop, -distToStop);
+              spawnedStationIndex = stopIndexRef.current;
+          }
+
+          if (trainStateRef.current === 'dwell') {
+              stopCap = 0;
+              if (t > dwellUntilRef.current) {
+                  trainStateRef.current = 'running';
+                  stopIndexRef.current++;
+              }
+          } else if (driverModeRef.current) {
+              // Doors open once the driver has stopped close enough to the mark;
+              // running well past it loses the stop
+              if (currentSpeedRef.current < 0.5 && Math.abs(distToStop) < STOP_TOLERANCE) {
+                  stopCap = 0;
+                  trainStateRef.current = 'dwell';
+                  dwellUntilRef.current = t + stop.dwellSeconds;
+                  arrivedIndexRef.current = stopIndexRef.current;
+              } else if (distToStop < -STOP_TOLERANCE) {
+                  stopIndexRef.current++;
+              }
+          } else if (distToStop < 0.5) {
+              // Stopping mark reached: the last metre or so is braked out at a crawl
+              stopCap = 0;
+              trainStateRef.current = 'dwell';
+              dwellUntilRef.current = t + stop.dwellSeconds;
+              arrivedIndexRef.current = stopIndexRef.current;
+          } else {
+              // Braking curve towards the mark, with a crawl so we never stall short of it
+              stopCap = Math.max(3, Math.sqrt(2 * STOP_DECEL * distToStop) * 3.6);
+              if (stopCap < currentSpeedRef.current) trainStateRef.current = 'braking';
+          }
+      }
+
+      // Curve restrictions ahead, each turned into a braking curve back to the cab
+      let curveCap = Infinity;
+      const speedMs = currentSpeedRef.current / 3.6;
+      const lookahead = Math.min(CURVE_LOOKAHEAD, (speedMs * speedMs) / (2 * STOP_DECEL) + 100);
+      for (let d = 0; d <= lookahead; d += 20) {
+          const limit = track.curveSpeedLimit(routePosRef.current + d);
+          if (limit === Infinity) continue;
+          const limitMs = limit / 3.6;
+          curveCap = Math.min(curveCap, Math.sqrt(limitMs * limitMs + 2 * STOP_DECEL * d) * 3.6);
+      }
 
-      const inertia = 0.5 * delta; 
-      if (currentSpeedRef.current < targetSpeedRef.current) {
-          currentSpeedRef.current = Math.min(targetSpeedRef.current, currentSpeedRef.current + inertia * 5); 
-      } else if (currentSpeedRef.current > targetSpeedRef.current) {
-          currentSpeedRef.current = Math.max(targetSpeedRef.current, currentSpeedRef.current - inertia * 2); 
+      // Signals ahead likewise: stop short of a red, be down to a yellow's speed by the signal
+      let signalCap = Infinity;
+      for (let i = currentBlock + 1; signalPosition(i) - routePosRef.current <= lookahead + BLOCK_LENGTH; i++) {
+          const d = signalPosition(i) - routePosRef.current;
+          const aspect = blocks.aspectAt(i);
+          const limitMs = aspect === 'red' ? 0 : ASPECT_SPEED[aspect] / 3.6;
+          if (limitMs === Infinity) continue;
+          const room = aspect === 'red' ? Math.max(0, d - SIGNAL_STOP_MARGIN) : d;
+          signalCap = Math.min(signalCap, Math.sqrt(limitMs * limitMs + 2 * STOP_DECEL * room) * 3.6);
+      }
+
+      if (driverModeRef.current) {
+          driveTrain(t, delta, stopCap, lineLimit);
+          wasDriving = true;
+      } else {
+          if (wasDriving) {
+              releaseDriver();
+              wasDriving = false;
+          }
+          // Limits and braking curves make one target, which the automatic driver chases
+          const effectiveTarget = Math.min(lineLimit, stopCap, curveCap, signalCap);
+          const controls = getAutoControls(effectiveTarget, currentSpeedRef.current);
+          runDynamics(delta, controls.traction, controls.brake, false);
       }
 
       if (t > nextSignTimeRef.current) {
           const limits = [40, 60, 80, 100, 120];
-          const newLimit = limits[Math.floor(Math.random() * limits.length)];
+          const newLimit = limits[Math.floor(signRng() * limits.length)];
           createSpeedLimitSign(newLimit, -150);
-          nextSignTimeRef.current = t + 20 + Math.random() * 20; 
+          nextSignTimeRef.current = t + 20 + signRng() * 20; 
       }
 
+      // Distance run, integrated from speed: it moves the world and drives the odometer
       const worldMoveDist = (currentSpeedRef.current * 0.28) * delta; 
-      
-      for (const obj of movingObjects) {
-        obj.position.z += worldMoveDist;
-        if (obj.position.z > frontLimit) {
-          obj.position.z -= wrapDistance;
-          
-          const isSign = activeSignsRef.current.some(s => s.mesh === obj) || obj.children.some(c => c instanceof THREE.Mesh && (c.geometry instanceof THREE.CircleGeometry));
-          
-          if (!isSign) {
-              if (obj.position.x < -4 || obj.position.x > 4) {
-                const side = obj.position.x > 0 ? 1 : -1;
-                obj.position.x = side * (6 + Math.random() * 8); 
+      routePosRef.current += worldMoveDist;
+
+      // --- TRACK FOLLOWING ---
+      const routePos = routePosRef.current;
+      track.sample(routePos, trainSample);
+      trainEuler.set(Math.atan(trainSample.grade), trainSample.heading, trainSample.cant);
+      trainQuat.setFromEuler(trainEuler).invert();
+      world.quaternion.copy(trainQuat);
+      world.position.set(trainSample.x, trainSample.y, trainSample.z).applyQuaternion(trainQuat).negate();
+      trackStrips.forEach(strip => updateTrackStrip(strip, routePos));
+      placeConsist(routePos);
+      streamScenery(routePos);
+      updateTraffic(t, delta, routePos, currentSpeedRef.current / 3.6);
+
+      // --- TRACK STRUCTURES ---
+      if (upcomingStructure.start - routePos < STRUCTURE_SPAWN_DISTANCE) {
+          buildStructure(upcomingStructure);
+          upcomingStructure = track.nextStructure(upcomingStructure.end);
+      }
+      for (let i = activeStructures.length - 1; i >= 0; i--) {
+          const done = activeStructures[i].structure;
+          // Crossings linger so the bell can fade out behind us
+          const linger = Math.max(done.kind === 'crossing' ? 90 : frontLimit + 10, viewBehind);
+          if (done.end - routePos < -linger) {
+              activeStructures[i].parts.forEach(releaseObject);
+              activeStructures.splice(i, 1);
+              const crossingIndex = crossings.findIndex(c => c.structure === done);
+              if (crossingIndex >= 0) {
+                  silenceBell(crossings[crossingIndex]);
+                  crossings.splice(crossingIndex, 1);
               }
-          } else {
-             obj.position.y = -100; 
           }
-        }
+      }
+      updateCrossings(t, delta, routePos);
+      onBridgeRef.current = track.structureAt(routePos)?.kind === 'bridge';
+
+      // Reverb and muffled radio follow the enclosure
+      const audioCtx = audioCtxRef.current;
+      if (audioCtx && tunnelWetGainRef.current && radioMuffleRef.current && Math.abs(enclosure - appliedEnclosure) > 0.01) {
+          appliedEnclosure = enclosure;
+          tunnelWetGainRef.current.gain.setTargetAtTime(0.7 * enclosure, audioCtx.currentTime, 0.2);
+          radioMuffleRef.current.frequency.setTargetAtTime(12000 * Math.pow(600 / 12000, enclosure), audioCtx.currentTime, 0.2);
       }
 
-      if (rainSystemRef.current) {
-          const positions = rainSystemRef.current.geometry.attributes.position.array as Float32Array;
-          for(let i=0; i<rainCount; i++) {
-              positions[i*3+1] -= 20 * delta; 
-              positions[i*3] -= 4 * delta; 
-              if (positions[i*3+1] < -2) {
-                  positions[i*3+1] = 5;
-                  positions[i*3] = (Math.random() - 0.5) * 10 + 2; 
-              }
-          }
-          rainSystemRef.current.geometry.attributes.position.needsUpdate = true;
+      if (onRouteProgressRef.current && t - lastProgressReport > PROGRESS_REPORT_INTERVAL) {
+          lastProgressReport = t;
+          const pace = Math.max(currentSpeedRef.current, 20) * 0.28;
+          onRouteProgressRef.current({
+              nextStationIndex: stopIndexRef.current,
+              distanceKm: Math.max(0, distToStop) / 1000,
+              speedKmh: currentSpeedRef.current,
+              state: trainStateRef.current,
+              etaSeconds: trainStateRef.current === 'dwell' ? 0 : Math.max(0, distToStop) / pace,
+              arrivedIndex: arrivedIndexRef.current,
+              lineKm: lineMetreAt(routePosRef.current) / 1000,
+              tripKm: routePosRef.current / 1000,
+          });
       }
 
-      if (snowSystemRef.current) {
-          const positions = snowSystemRef.current.geometry.attributes.position.array as Float32Array;
-          for(let i=0; i<snowCount; i++) {
-              positions[i*3+1] -= 2.5 * delta; 
-              positions[i*3] -= (2.0 * delta) + Math.sin(t + positions[i*3+1]) * 0.01;
-              positions[i*3+2] += Math.cos(t * 0.5 + i) * 0.01;
-              if (positions[i*3+1] < -2) {
-                  positions[i*3+1] = 8;
-                  positions[i*3] = (Math.random() - 0.5) * 15; 
-              }
+      for (let i = transientObjects.length - 1; i >= 0; i--) {
+          const obj = transientObjects[i];
+          if (obj.userData.trackS - routePosRef.current < -(Math.max(frontLimit, viewBehind) + (obj.userData.length || 0))) {
+              releaseObject(obj);
+              transientObjects.splice(i, 1);
           }
-          snowSystemRef.current.geometry.attributes.position.needsUpdate = true;
       }
-
-      peopleRef.current.forEach((person, idx) => {
-          const shiver = Math.sin(t * 10 + idx) * 0.005;
-          const breathe = Math.sin(t * 2 + idx) * 0.02;
-          person.scale.set(1 + shiver, 1 + breathe, 1 + shiver);
-          person.rotation.z = Math.sin(t + idx) * 0.05;
+      
+      // Biome transition runs over distance, not time
+      biomeBlendRef.current = Math.min(1, biomeBlendRef.current + worldMoveDist / BIOME_TRANSITION_DISTANCE);
+
+      rainSpeed = THREE.MathUtils.lerp(rainSpeed, targets.rainSpeed, lerpSpeed);
+      snowSpeed = THREE.MathUtils.lerp(snowSpeed, targets.snowSpeed, lerpSpeed);
+      windSpeed = THREE.MathUtils.lerp(windSpeed, targets.wind, lerpSpeed);
+
+      // The precipitation boxes sit in front of the camera, turned with it about
+      // the vertical, so the air's motion past the train is turned into their frame
+      camera.getWorldDirection(viewDirection);
+      const precipYaw = Math.atan2(-viewDirection.x, -viewDirection.z);
+      [rainSystem, snowSystem].forEach(system => {
+          system.rotation.y = precipYaw;
+          system.position.set(0, -1.2, -0.8).applyAxisAngle(upAxis, precipYaw).add(camera.position);
       });
 
+      // Advance the precipitation offsets, kept wrapped to the box so the shader
+      // never loses float precision on a long run
+      const rushSpeed = currentSpeedRef.current * 0.28;
+      const rainOffset = rainMat.uniforms.uOffset.value;
+      const rainFlow = rainMat.uniforms.uVelocity.value.set(-windSpeed, -rainSpeed, rushSpeed).applyAxisAngle(upAxis, -precipYaw);
+      rainOffset.set(
+          (rainOffset.x + rainFlow.x * delta) % rainBox.x,
+          (rainOffset.y + rainFlow.y * delta) % rainBox.y,
+          (rainOffset.z + rainFlow.z * delta) % rainBox.z
+      );
+
+      // Strong wind drives the flakes almost horizontally, with gusty swirl
+      const snowOffset = snowMat.uniforms.uOffset.value;
+      snowFlow.set(-windSpeed, -snowSpeed, rushSpeed).applyAxisAngle(upAxis, -precipYaw);
+      snowOffset.set(
+          (snowOffset.x + snowFlow.x * delta) % snowBox.x,
+          (snowOffset.y + snowFlow.y * delta) % snowBox.y,
+          (snowOffset.z + snowFlow.z * delta) % snowBox.z
+      );
+      snowMat.uniforms.uTime.value = t;
+      snowMat.uniforms.uGust.value = windSpeed / 22;
+      // Only the cab nose stirs up the eddy
+      snowMat.uniforms.uRush.value = shownView === 'cab' ? Math.min(1.5, rushSpeed / 25) : 0;
+
+      // People idle in the vertex shader
+      swayTime.value = t;
+
       if (wiperPivotRef.current) {
-        if (weatherRef.current === 'rain') {
-            const wipeSpeed = 3.5; 
-            const angle = Math.sin(t * wipeSpeed) * 0.8;
+        const w = weatherRef.current;
+        if (w === 'rain' || w === 'thunderstorm' || w === 'sleet' || w === 'blizzard') {
+            const wipeSpeed = w === 'thunderstorm' || w === 'blizzard' ? 5.0 : 3.5; 
+            wiperPhase += delta * wipeSpeed;
+            // In a blizzard the blade judders as it ploughs through packed snow
+            const judder = w === 'blizzard' ? Math.sin(t * 37) * 0.015 : 0;
+            const angle = Math.sin(wiperPhase) * 0.8 + judder;
             wiperPivotRef.current.rotation.z = angle;
         } else {
             const currentZ = wiperPivotRef.current.rotation.z;
@@ -1392,43 +4379,117 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
         }
       }
 
-      if (gaugeNeedlesRef.current.length >= 3) {
+      // --- WINDSCREEN ---
+      const rainOnGlass = rainMat.uniforms.uOpacity.value / 0.85;
+      const snowOnGlass = snowMat.uniforms.uOpacity.value;
+      // The cab lamps stand in for the heater: the brighter the cab, the warmer the glass
+      const cabWarmth = interiorLightRef.current ? Math.min(1, interiorLightRef.current.intensity / 0.4) : 0.5;
+      windscreen.update(delta, {
+          rain: rainOnGlass,
+          snow: snowOnGlass,
+          speedKmh: currentSpeedRef.current,
+          cold: targets.glassCold * (1 - enclosure * 0.5),
+          humidity: targets.humidity,
+          warmth: cabWarmth,
+      });
+      if (wiperPivotRef.current) {
+          const wiperAngle = wiperPivotRef.current.rotation.z;
+          windscreen.wipe(lastWiperAngle, wiperAngle);
+          lastWiperAngle = wiperAngle;
+      }
+      windscreenTex.needsUpdate = true;
+      glassMat.uniforms.uLight.value = (ambientLightRef.current ? ambientLightRef.current.intensity : 0.3) + interiorLight.intensity;
+
+      if (gaugeNeedlesRef.current.length >= 5) {
           const speedRatio = Math.max(0, Math.min(1, currentSpeedRef.current / 120)); 
-          const startAngle = Math.PI * 0.75; 
-          const totalAngle = Math.PI * 1.5;  
-          const currentAngle = startAngle - (speedRatio * totalAngle);
           const vibrationAmp = 0.005 + (speedRatio * 0.05); 
           const speedJitter = (Math.sin(t * 25) + Math.cos(t * 40)) * vibrationAmp;
-          
-          gaugeNeedlesRef.current[0].rotation.z = currentAngle + speedJitter;
-          
-          const pressure = Math.sin(t * 0.2) * 0.1 + 0.5;
-          gaugeNeedlesRef.current[1].rotation.z = (Math.PI * 1.25) - (pressure * (Math.PI * 1.5));
-
-          const volts = 0.8 + (Math.random() - 0.5) * 0.05;
-          gaugeNeedlesRef.current[2].rotation.z = (Math.PI * 1.25) - (volts * (Math.PI * 1.5));
+          setNeedle(0, speedRatio, speedJitter);
+
+          // The other needles are damped, so a voltage spike reads as a flick
+          gaugeReadings[0] = THREE.MathUtils.lerp(gaugeReadings[0], dynamics.brakePipe / 10, Math.min(1, delta * 6));
+          gaugeReadings[1] = THREE.MathUtils.lerp(gaugeReadings[1], lineVoltage / 4000, Math.min(1, delta * 10));
+          gaugeReadings[2] = THREE.MathUtils.lerp(gaugeReadings[2], dynamics.cylinder / 6, Math.min(1, delta * 6));
+          gaugeReadings[3] = THREE.MathUtils.lerp(gaugeReadings[3], dynamics.lineCurrent / 800, Math.min(1, delta * 8));
+          gaugeReadings.forEach((reading, i) => setNeedle(i + 1, reading, 0));
       }
+      arcLight.intensity = arcing ? 4 + Math.random() * 8 : arcLight.intensity * Math.exp(-delta * 30);
 
       const shakeScalar = currentSpeedRef.current / 60; 
       const shakeX = (Math.sin(t * 20) * 0.002 + Math.sin(t * 50) * 0.002) * shakeScalar;
       const shakeY = (Math.cos(t * 18) * 0.003) * shakeScalar;
       const sway = Math.sin(t * 1.5) * 0.02;
+      // Pressure wave from passing traffic
+      passShake *= Math.exp(-delta * 2.5);
+      const passX = Math.sin(t * 41) * 0.02 * passShake;
+      const passY = Math.sin(t * 33) * 0.01 * passShake;
       
-      camera.position.x = pointerOffsetX + shakeX + (Math.sin(t * 0.5) * 0.01);
-      camera.position.y = 1.2 + pointerOffsetY + shakeY + sway;
-      camera.lookAt(0 + pointerOffsetX * 0.5, 1.0 + pointerOffsetY * 0.5, -10);
-      renderer.render(scene, camera);
+      // Lean with the unbalanced lateral acceleration through curves
+      const lateralAccel = (speedMs * speedMs) * trainSample.curvature - 9.81 * Math.sin(trainSample.cant);
+      bodyLean = THREE.MathUtils.lerp(bodyLean, THREE.MathUtils.clamp(lateralAccel * 0.03, -0.05, 0.05), delta * 2);
+
+      // --- CAMERA VIEWS ---
+      // A switch glides from wherever the camera is to the new view; the
+      // interiors and car bodies swap halfway, and the line behind stays long
+      // enough for both views until the move is done
+      if (cameraViewRef.current !== activeView) {
+          fromPosition.copy(camera.position);
+          fromQuaternion.copy(camera.quaternion);
+          previousView = activeView;
+          activeView = cameraViewRef.current;
+          viewBlend = 0;
+          viewBehind = Math.max(VIEW_BEHIND[previousView], VIEW_BEHIND[activeView]);
+          orbitControls.enabled = activeView === 'orbit';
+          rubbing = false;
+      }
+      viewBlend = Math.min(1, viewBlend + delta / VIEW_TRANSITION);
+      if (viewBlend >= 1) viewBehind = VIEW_BEHIND[activeView];
+      if (activeView === 'orbit') orbitControls.update();
+
+      world.updateWorldMatrix(false, false);
+      consist.forEach(car => car.updateWorldMatrix(false, false));
+      viewSway.set(pointerOffsetX + shakeX + passX + (Math.sin(t * 0.5) * 0.01), pointerOffsetY + shakeY + passY + sway, 0);
+      getViewPose(activeView, viewSway, bodyLean);
+      const k = THREE.MathUtils.smoothstep(viewBlend, 0, 1);
+      camera.position.lerpVectors(fromPosition, poseCam.position, k);
+      camera.quaternion.slerpQuaternions(fromQuaternion, poseCam.quaternion, k);
+      const visibleView = k < 0.5 ? previousView : activeView;
+      if (visibleView !== shownView) {
+          shownView = visibleView;
+          showView(shownView);
+      }
+      saloonLight.intensity = shownView === 'side' ? interiorLight.intensity * 2 : 0;
+      ownWindowMat.emissiveIntensity = 0.4 * envTargets.current.streetLightIntensity;
+
+      applyQuality(t, delta);
+      // Shadow maps are drawn once per frame, before the first of the renders below
+      applyShadows(t);
+      // The wet glass needs the view behind it; blurred by the drops it can
+      // lag a little, so it is redrawn at half resolution every few frames
+      if (shownView === 'cab' && !windscreen.isClear()) {
+          if (behindGlassAge++ % BEHIND_GLASS_INTERVAL === 0) {
+              glass.visible = false;
+              renderer.setRenderTarget(behindGlass);
+              renderer.render(scene, camera);
+              renderer.setRenderTarget(null);
+              glass.visible = true;
+          }
+      } else {
+          behindGlassAge = 0;
+      }
+      applyPostFx(t);
+      composer.render(delta);
+      if (captureRequestedRef.current) {
+          captureRequestedRef.current = false;
+          saveCapture();
+      }
     };
 
     animate();
 
     const handleResize = () => {
       if (!container) return;
-      const newWidth = container.clientWidth || window.innerWidth;
-      const newHeight = container.clientHeight || window.innerHeight;
-      camera.aspect = newWidth / newHeight;
-      camera.updateProjectionMatrix();
-      renderer.setSize(newWidth, newHeight);
+      resizeBuffers();
     };
 
     window.addEventListener("resize", handleResize);
@@ -1436,7 +4497,14 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
     return () => {
       window.removeEventListener("resize", handleResize);
       window.removeEventListener("pointermove", onPointerMove);
+      renderer.domElement.removeEventListener("pointerdown", onPointerDown);
+      window.removeEventListener("pointerup", onPointerUp);
       if (frameId) cancelAnimationFrame(frameId);
+      crossings.forEach(silenceBell);
+      behindGlass.dispose();
+      windscreenTex.dispose();
+      composer.dispose();
+      orbitControls.dispose();
       if (renderer) {
         renderer.dispose();
         if (container.contains(renderer.domElement)) container.removeChild(renderer.domElement);
@@ -1454,7 +4522,7 @@ const PostSovietTrainView: React.FC<PostSovietTrainViewProps> = ({
         });
       }
     };
-  }, []); 
+  }, [seed]); 
 
   return <div ref={containerRef} className="w-full h-full" />;
 };
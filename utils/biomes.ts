@@ -0,0 +1,113 @@
+import { Rng, createRng } from './random';
+
+export type BiomeId = 'mikrorayon' | 'promzona' | 'birch' | 'steppe' | 'dacha' | 'taiga';
+
+// Scenery a generator slot can hold; 'none' leaves the slot empty
+export type PropKind = 'panelHouse' | 'factory' | 'dacha' | 'tree' | 'birch' | 'pine' | 'person' | 'streetLight' | 'none';
+
+export type PropWeights = Partial<Record<PropKind, number>>;
+
+export interface Biome {
+  id: BiomeId;
+  name: string;          // translit region name for the HUD
+  near: PropWeights;     // slots 6-14 m from the track
+  far: PropWeights;      // backdrop slots 14-40 m out
+  accent: PropWeights;   // loose trees and bushes between the two
+  peopleChance: number;
+  streetLightChance: number;
+  groundColor: number;
+  fogTint: number;
+}
+
+export const BIOMES: Record<BiomeId, Biome> = {
+  mikrorayon: {
+    id: 'mikrorayon',
+    name: 'MIKRORAYON',
+    near: { panelHouse: 8, tree: 1, none: 1 },
+    far: { panelHouse: 3, factory: 1, none: 2 },
+    accent: { tree: 5, birch: 1, none: 3 },
+    peopleChance: 0.35,
+    streetLightChance: 1.0,
+    groundColor: 0x383a38,
+    fogTint: 0x8a96a3,
+  },
+  promzona: {
+    id: 'promzona',
+    name: 'PROMZONA',
+    near: { factory: 4, panelHouse: 2, none: 2 },
+    far: { factory: 6, none: 1 },
+    accent: { tree: 2, none: 6 },
+    peopleChance: 0.15,
+    streetLightChance: 0.8,
+    groundColor: 0x33302c,
+    fogTint: 0x6e6252,
+  },
+  birch: {
+    id: 'birch',
+    name: 'BEREZOVAYA ROSHCHA',
+    near: { birch: 7, tree: 2, none: 1 },
+    far: { birch: 5, pine: 1, none: 1 },
+    accent: { birch: 6, none: 2 },
+    peopleChance: 0.05,
+    streetLightChance: 0.1,
+    groundColor: 0x3d4a30,
+    fogTint: 0x9aa89a,
+  },
+  steppe: {
+    id: 'steppe',
+    name: 'STEP',
+    near: { none: 9, tree: 1 },
+    far: { none: 8, factory: 1 },
+    accent: { tree: 1, none: 9 },
+    peopleChance: 0.02,
+    streetLightChance: 0.05,
+    groundColor: 0x6b6440,
+    fogTint: 0xb0a27a,
+  },
+  dacha: {
+    id: 'dacha',
+    name: 'DACHNY POSELOK',
+    near: { dacha: 7, tree: 2, birch: 1, none: 1 },
+    far: { dacha: 3, birch: 2, pine: 1, none: 2 },
+    accent: { tree: 4, birch: 2, none: 2 },
+    peopleChance: 0.2,
+    streetLightChance: 0.3,
+    groundColor: 0x45503a,
+    fogTint: 0x94a090,
+  },
+  taiga: {
+    id: 'taiga',
+    name: 'TAYGA',
+    near: { pine: 8, birch: 1, none: 1 },
+    far: { pine: 8, none: 1 },
+    accent: { pine: 5, none: 2 },
+    peopleChance: 0.01,
+    streetLightChance: 0.05,
+    groundColor: 0x7d8786,
+    fogTint: 0xaabbcc,
+  },
+};
+
+const BIOME_ORDER: BiomeId[] = ['mikrorayon', 'promzona', 'birch', 'steppe', 'dacha', 'taiga'];
+
+// Each sector maps to a fixed biome for a given seed, never repeating the previous sector's
+export const getBiomeForSector = (seed: string, sector: number): BiomeId => {
+  let biome: BiomeId | null = null;
+  for (let s = 1; s <= Math.max(1, sector); s++) {
+    let next = BIOME_ORDER[Math.floor(createRng(`${seed}:biome:${s}`)() * BIOME_ORDER.length)];
+    if (next === biome) next = BIOME_ORDER[(BIOME_ORDER.indexOf(next) + 1) % BIOME_ORDER.length];
+    biome = next;
+  }
+  return biome as BiomeId;
+};
+
+export const pickProp = (rng: Rng, weights: PropWeights): PropKind => {
+  const entries = Object.entries(weights) as [PropKind, number][];
+  const total = entries.reduce((sum, [, w]) => sum + w, 0);
+  let roll = rng() * total;
+  for (const [kind, w] of entries) {
+    roll -= w;
+    if (roll <= 0) return kind;
+  }
+  return 'none';
+};
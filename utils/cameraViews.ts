@@ -0,0 +1,13 @@
+// Camera positions around our own train, in the order the VID button steps
+// through them. 'orbit' is a free mouse-driven camera for looking around the
+// scene while debugging.
+
+export type CameraView = 'cab' | 'side' | 'rear' | 'chase' | 'orbit';
+
+export const CAMERA_VIEWS: { id: CameraView; label: string }[] = [
+  { id: 'cab', label: 'KABINA' },
+  { id: 'side', label: 'OKNO' },
+  { id: 'rear', label: 'KORMA' },
+  { id: 'chase', label: 'SNARUZHI' },
+  { id: 'orbit', label: 'ORBITA' },
+];
@@ -0,0 +1,74 @@
+import { createRng } from './random';
+import { Route } from './route';
+import { BLOCK_LENGTH, signalPosition } from './signalling';
+
+// 3 kV DC overhead supply. Traction substations stand every 12-18 km, each
+// with a short dead (neutral) section where the feeds meet; the line voltage
+// sags with the train's own current and the distance back to the nearest
+// substation. In freezing rain the ice on the contact wire makes the
+// pantograph bounce and arc.
+
+export const NO_LOAD_VOLTAGE = 3300;
+const SUBSTATION_SPACING = 15000;
+const NEUTRAL_SECTION_LENGTH = 30;
+const SOURCE_RESISTANCE = 0.1;   // ohms, substation and feeders
+const LINE_RESISTANCE = 0.05;    // ohms per km of contact wire and rail return
+
+export interface CatenaryReading {
+  voltage: number;   // at the pantograph, volts
+  arcing: boolean;   // pantograph off the wire and sparking
+}
+
+export interface Catenary {
+  update: (dt: number, s: number, current: number, speedKmh: number, freezing: boolean) => CatenaryReading;
+}
+
+export const createCatenary = (seed: string, route: Route): Catenary => {
+  const stopS = route.stations.map(st => (st.km - route.startKm) * 1000);
+
+  // Substation k, moved along until its dead section is clear of platforms
+  // and signals, where a train could come to rest without supply
+  const substations = new Map<number, number>();
+  const substationAt = (k: number) => {
+    let s = substations.get(k);
+    if (s !== undefined) return s;
+    s = k * SUBSTATION_SPACING + (createRng(`${seed}:substation:${k}`)() - 0.5) * 6000;
+    for (let tries = 0; tries < 20; tries++) {
+      const nearStop = stopS.some(stop => Math.abs(stop - s!) < 300);
+      const nearSignal = Math.abs(signalPosition(Math.round(s / BLOCK_LENGTH - 0.5)) - s) < 150;
+      if (!nearStop && !nearSignal) break;
+      s += 350;
+    }
+    substations.set(k, s);
+    return s;
+  };
+
+  const arcRng = createRng(`${seed}:arcing`);
+  let arcFor = 0;
+  let surge = 0;
+
+  const update = (dt: number, s: number, current: number, speedKmh: number, freezing: boolean): CatenaryReading => {
+    const k = Math.round(s / SUBSTATION_SPACING);
+    let nearest = Infinity;
+    for (let i = k - 1; i <= k + 1; i++) {
+      const d = s - substationAt(i);
+      if (d >= 0 && d < NEUTRAL_SECTION_LENGTH) return { voltage: 0, arcing: false };
+      nearest = Math.min(nearest, Math.abs(d));
+    }
+
+    // Iced wire: the pantograph leaves it for a moment, then lands with a kick
+    if (arcFor > 0) {
+      arcFor -= dt;
+      if (arcFor <= 0) surge = 600 + arcRng() * 500;
+    } else if (freezing && speedKmh > 10 && arcRng() < dt * 0.4) {
+      arcFor = 0.05 + arcRng() * 0.15;
+    }
+    if (arcFor > 0) return { voltage: 0, arcing: true };
+    surge *= Math.exp(-dt * 12);
+
+    const resistance = SOURCE_RESISTANCE + LINE_RESISTANCE * nearest / 1000;
+    return { voltage: NO_LOAD_VOLTAGE - current * resistance + surge, arcing: false };
+  };
+
+  return { update };
+};
@@ -0,0 +1,55 @@
+// Continuous 24h clock helpers. Hours are fractional (6.5 = 06:30).
+
+// Simulated seconds per real second: one full day per real hour
+export const TIME_SCALE = 24;
+
+export type DayPeriod = 'NOCH' | 'RASSVET' | 'UTRO' | 'DEN' | 'VECHER' | 'ZAKAT';
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+export const wrapHours = (hours: number) => ((hours % 24) + 24) % 24;
+
+// Angle of the sun along its path: 0 at sunrise (06:00), PI at sunset (18:00)
+export const getSunAngle = (hours: number) => ((wrapHours(hours) - 6) / 24) * Math.PI * 2;
+
+// -1 (midnight) .. 1 (noon)
+export const getSunElevation = (hours: number) => Math.sin(getSunAngle(hours));
+
+// 0 at night, 1 in full daylight, with a soft civil-twilight ramp
+export const getDaylight = (hours: number) => smoothstep(-0.08, 0.2, getSunElevation(hours));
+
+// Peaks while the sun sits on the horizon - drives the sunrise/sunset palette
+export const getTwilight = (hours: number) => {
+  const elevation = getSunElevation(hours);
+  return Math.max(0, 1 - Math.abs(elevation - 0.02) / 0.22);
+};
+
+export const getDayPeriod = (hours: number): DayPeriod => {
+  const h = wrapHours(hours);
+  if (h < 5) return 'NOCH';
+  if (h < 7) return 'RASSVET';
+  if (h < 11) return 'UTRO';
+  if (h < 16.5) return 'DEN';
+  if (h < 17.5) return 'VECHER';
+  if (h < 19.5) return 'ZAKAT';
+  return 'NOCH';
+};
+
+export const formatClock = (hours: number) => {
+  const totalMinutes = Math.floor(wrapHours(hours) * 60);
+  const hh = Math.floor(totalMinutes / 60).toString().padStart(2, '0');
+  const mm = (totalMinutes % 60).toString().padStart(2, '0');
+  return `${hh}:${mm}`;
+};
+
+// Key times the CYCLE button skips between
+const CYCLE_STOPS = [5.5, 12, 18, 22];
+
+export const getHoursToNextCycleStop = (hours: number) => {
+  const h = wrapHours(hours);
+  const next = CYCLE_STOPS.find(stop => stop > h + 0.01);
+  return next !== undefined ? next - h : 24 - h + CYCLE_STOPS[0];
+};
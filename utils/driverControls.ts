@@ -0,0 +1,108 @@
+// Driver's controls for the opt-in driver mode: the traction controller, the
+// train brake valve and the ALSN safety device that watches over both. The
+// supervisor only decides when to whistle and when to brake; the view turns
+// that into a brake application.
+
+export const CONTROLLER_NOTCHES = 4; // traction positions above 0
+
+export type BrakeValve = 'release' | 'run' | 'lap' | 'service' | 'emergency';
+
+// Positions of the driver's brake valve, from full release to emergency, with
+// their numbers as stamped on the valve
+export const BRAKE_VALVE_POSITIONS: { id: BrakeValve; label: string; name: string }[] = [
+  { id: 'release', label: 'I', name: 'OTPUSK' },
+  { id: 'run', label: 'II', name: 'POEZDNOE' },
+  { id: 'lap', label: 'IV', name: 'PEREKRYSHA' },
+  { id: 'service', label: 'V', name: 'TORMOZH.' },
+  { id: 'emergency', label: 'VI', name: 'EKSTR.' },
+];
+
+// Seconds of running between vigilance checks, and the grace after the whistle
+export const VIGILANCE_INTERVAL = 60;
+export const VIGILANCE_GRACE = 7;
+// km/h over the limit before the whistle, and before braking without waiting
+export const OVERSPEED_MARGIN = 3;
+export const OVERSPEED_HARD_MARGIN = 10;
+export const OVERSPEED_GRACE = 5;
+
+export type SafetyState = 'ok' | 'warning' | 'braking';
+
+export interface SafetyStatus {
+  vigilance: SafetyState;  // 'braking' is penalty braking to a stand
+  overspeed: SafetyState;  // 'braking' holds a service application until under the limit
+  nextCheck: number;       // seconds until the next vigilance check
+}
+
+export interface DriverStatus extends SafetyStatus {
+  speedKmh: number;
+  limitKmh: number;
+  brakeLevel: number;      // 0..1 brake application called for by the valve
+  slipping: boolean;       // wheelspin under traction
+  sliding: boolean;        // wheels skidding under the brakes
+}
+
+export interface SafetyDevice {
+  update: (dt: number, speedKmh: number, limitKmh: number) => SafetyStatus;
+  // The vigilance handle: answers a check, or resets a penalty once stopped
+  acknowledge: (speedKmh: number) => void;
+  // Starts a vigilance check at once (the cab signal turned more restrictive)
+  demandCheck: () => void;
+  // Straight to penalty braking (a signal passed at danger)
+  trip: () => void;
+  reset: () => void;
+}
+
+export const createSafetyDevice = (): SafetyDevice => {
+  let sinceCheck = 0;
+  let vigilance: SafetyState = 'ok';
+  let overspeed: SafetyState = 'ok';
+  let overspeedFor = 0;
+
+  const update = (dt: number, speedKmh: number, limitKmh: number): SafetyStatus => {
+    // Checks only run while moving; a penalty stays until acknowledged at a stand
+    if (vigilance !== 'braking' && speedKmh > 1) {
+      sinceCheck += dt;
+      if (sinceCheck > VIGILANCE_INTERVAL + VIGILANCE_GRACE) vigilance = 'braking';
+      else if (sinceCheck > VIGILANCE_INTERVAL) vigilance = 'warning';
+    }
+
+    const over = speedKmh - limitKmh;
+    if (overspeed === 'braking') {
+      if (over < -OVERSPEED_MARGIN) {
+        overspeed = 'ok';
+        overspeedFor = 0;
+      }
+    } else if (over > OVERSPEED_MARGIN) {
+      overspeedFor += dt;
+      overspeed = over > OVERSPEED_HARD_MARGIN || overspeedFor > OVERSPEED_GRACE ? 'braking' : 'warning';
+    } else {
+      overspeed = 'ok';
+      overspeedFor = 0;
+    }
+
+    return { vigilance, overspeed, nextCheck: Math.max(0, VIGILANCE_INTERVAL - sinceCheck) };
+  };
+
+  const acknowledge = (speedKmh: number) => {
+    if (vigilance === 'braking' && speedKmh > 1) return;
+    vigilance = 'ok';
+    sinceCheck = 0;
+  };
+
+  const demandCheck = () => {
+    if (vigilance === 'ok') sinceCheck = Math.max(sinceCheck, VIGILANCE_INTERVAL);
+  };
+
+  const trip = () => {
+    vigilance = 'braking';
+  };
+
+  const reset = () => {
+    sinceCheck = 0;
+    vigilance = 'ok';
+    overspeed = 'ok';
+    overspeedFor = 0;
+  };
+
+  return { update, acknowledge, demandCheck, trip, reset };
+};
@@ -0,0 +1,31 @@
+// Settings for the CRT post-processing chain drawn over the cab view. Every
+// pass has an on/off switch and a single 0..1 amount the view maps onto its
+// own uniforms (bloom strength, grain level, distortion and so on).
+
+export type PostFxPass = 'bloom' | 'grain' | 'chroma' | 'barrel' | 'scanlines' | 'persistence';
+
+export interface PostFxPassSettings {
+  enabled: boolean;
+  amount: number; // 0..1
+}
+
+export type PostFxSettings = Record<PostFxPass, PostFxPassSettings>;
+
+// In the order the passes run, with their HUD labels
+export const POST_FX_PASSES: { id: PostFxPass; label: string }[] = [
+  { id: 'bloom', label: 'SVECHENIE' },
+  { id: 'persistence', label: 'POSLESVECH.' },
+  { id: 'chroma', label: 'ABERRATSIYA' },
+  { id: 'barrel', label: 'DISTORSIYA' },
+  { id: 'scanlines', label: 'RAZVERTKA' },
+  { id: 'grain', label: 'ZERNO' },
+];
+
+export const DEFAULT_POST_FX: PostFxSettings = {
+  bloom: { enabled: true, amount: 0.5 },
+  persistence: { enabled: true, amount: 0.3 },
+  chroma: { enabled: true, amount: 0.4 },
+  barrel: { enabled: true, amount: 0.3 },
+  scanlines: { enabled: true, amount: 0.6 },
+  grain: { enabled: true, amount: 0.4 },
+};
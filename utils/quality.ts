@@ -0,0 +1,84 @@
+import { ShadowQuality } from './shadows';
+
+// Rendering presets, from integrated graphics up to a desktop card. Each one
+// caps the pixel ratio and scales particles, view distance, scenery and the
+// heavier post passes; the auto mode then trims resolution to hold a frame rate.
+
+export type QualityPreset = 'low' | 'medium' | 'high' | 'ultra';
+
+export interface QualitySettings {
+  label: string;
+  pixelRatio: number;      // cap on the device pixel ratio
+  particles: number;       // 0..1 share of the full rain and snow counts drawn
+  drawDistance: number;    // metres: camera far plane, fog floor and scenery streamed ahead
+  sceneryDensity: number;  // 0..1 share of the optional scenery slots filled
+  bloom: boolean;
+  persistence: boolean;
+  msaa: number;            // samples on the post-processing targets
+  shadows: ShadowQuality;  // tier picked with the preset; can be changed on its own
+}
+
+export const QUALITY_PRESETS: QualityPreset[] = ['low', 'medium', 'high', 'ultra'];
+
+export const QUALITY_SETTINGS: Record<QualityPreset, QualitySettings> = {
+  low:    { label: 'NIZK', pixelRatio: 0.75, particles: 0.2, drawDistance: 120, sceneryDensity: 0.5, bloom: false, persistence: false, msaa: 0, shadows: 'off' },
+  medium: { label: 'SRED', pixelRatio: 1, particles: 0.45, drawDistance: 160, sceneryDensity: 0.75, bloom: true, persistence: false, msaa: 0, shadows: 'low' },
+  high:   { label: 'VYS', pixelRatio: 1.5, particles: 0.75, drawDistance: 200, sceneryDensity: 1, bloom: true, persistence: true, msaa: 4, shadows: 'medium' },
+  ultra:  { label: 'ULTRA', pixelRatio: 2, particles: 1, drawDistance: 240, sceneryDensity: 1, bloom: true, persistence: true, msaa: 8, shadows: 'high' },
+};
+
+export const TARGET_FPS_OPTIONS = [30, 60];
+
+export interface PerformanceReport {
+  fps: number;
+  resolution: number;  // current dynamic resolution scale, 0..1
+}
+
+const MIN_SCALE = 0.5;
+const SCALE_STEP = 0.1;
+const WINDOW_SECONDS = 1.5;
+
+export interface ResolutionGovernor {
+  // Feed one frame; returns true when the resolution scale has changed
+  update: (dt: number, targetFps: number, enabled: boolean) => boolean;
+  scale: () => number;
+  fps: () => number;
+}
+
+// Averages frame time over short windows. Missing the target drops resolution
+// a step at once; hitting it for several windows in a row tries a step back up
+// (a vsynced display never runs faster than the target, so it has to probe).
+export const createResolutionGovernor = (): ResolutionGovernor => {
+  let scale = 1;
+  let elapsed = 0;
+  let frames = 0;
+  let fps = 60;
+  let goodWindows = 0;
+
+  const update = (dt: number, targetFps: number, enabled: boolean) => {
+    // Stalls (a hidden tab, a shader compile) say nothing about the steady rate
+    if (dt > 0.25) return false;
+    elapsed += dt;
+    frames++;
+    if (elapsed < WINDOW_SECONDS) return false;
+    fps = frames / elapsed;
+    elapsed = 0;
+    frames = 0;
+
+    const previous = scale;
+    if (!enabled) {
+      scale = 1;
+      goodWindows = 0;
+    } else if (fps < targetFps * 0.9) {
+      scale = Math.max(MIN_SCALE, scale - SCALE_STEP);
+      goodWindows = 0;
+    } else if (fps > targetFps * 0.97 && ++goodWindows >= 4) {
+      scale = Math.min(1, scale + SCALE_STEP);
+      goodWindows = 0;
+    }
+    scale = Math.round(scale * 10) / 10;
+    return scale !== previous;
+  };
+
+  return { update, scale: () => scale, fps: () => fps };
+};
@@ -0,0 +1,49 @@
+// Seeded pseudo-random streams. Every procedural decision in the app pulls
+// from one of these so that a single session seed rebuilds the same journey.
+
+export type Rng = () => number;
+
+// 32-bit string hash (xmur3 finaliser)
+export const hashString = (str: string): number => {
+  let h = 1779033703 ^ str.length;
+  for (let i = 0; i < str.length; i++) {
+    h = Math.imul(h ^ str.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+// mulberry32: small, fast and good enough for scenery
+export const createRng = (seed: string): Rng => {
+  let a = hashString(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// One-shot value from a named stream, safe to call from React initialisers
+export const seededInt = (seed: string, min: number, max: number): number => {
+  return Math.floor(createRng(seed)() * (max - min + 1)) + min;
+};
+
+export const pick = <T>(rng: Rng, items: readonly T[]): T => {
+  return items[Math.floor(rng() * items.length)];
+};
+
+// Reads ?seed= from the URL, or rolls a fresh one and writes it back so the
+// address bar always holds a shareable link to the current run.
+export const getSessionSeed = (): string => {
+  const url = new URL(window.location.href);
+  const existing = url.searchParams.get('seed');
+  if (existing && existing.trim()) return existing.trim();
+
+  const seed = `REYS-${Math.floor(Math.random() * 900) + 100}`;
+  url.searchParams.set('seed', seed);
+  window.history.replaceState(null, '', url.toString());
+  return seed;
+};
@@ -0,0 +1,93 @@
+import { createRng, pick } from './random';
+import { TIME_SCALE } from './dayCycle';
+
+// Platform halts (ostanovochny punkt) are short stops with a bare platform;
+// stations get a vokzal building, a canopy and a longer dwell.
+export type StationKind = 'platform' | 'station';
+
+export interface Station {
+  name: string;
+  kind: StationKind;
+  km: number;           // line kilometre of the stopping point
+  dwellSeconds: number; // real seconds spent at the platform
+}
+
+export interface Route {
+  startKm: number;      // line kilometre where the journey begins
+  stations: Station[];
+}
+
+const STATION_NAMES = [
+  'ZAVODSKAYA', 'NOVOSTROY', 'KRASNY OKTYABR', 'PROMYSHLENNAYA', 'SOSNOVKA',
+  'ZARECHYE', 'LESNAYA', 'BEREZKI', 'RABOCHIY POSELOK', 'OKTYABRSKAYA',
+  'UZLOVAYA', 'SORTIROVOCHNAYA', 'VOSTOCHNAYA', 'KOMSOMOLSKAYA', 'SHAKHTNAYA',
+  'PERVOMAYSKAYA', 'TOVARNAYA', 'METALLURG', 'KIROVSKAYA', 'YUBILEYNAYA',
+  'STAROYE DEPO', 'GORNAYA', 'SOLNECHNAYA', 'TEKSTILSHCHIK', 'ELEKTROZAVOD',
+];
+
+// Average speed the timetable assumes between stops, acceleration included
+export const SCHEDULE_SPEED_KMH = 70;
+
+export const generateRoute = (seed: string, count = 400): Route => {
+  const rng = createRng(`${seed}:route`);
+  const startKm = Math.floor(rng() * 900) + 400;
+  const stations: Station[] = [];
+
+  let km = startKm;
+  let sinceStation = 0;
+  for (let i = 0; i < count; i++) {
+    km += 1.5 + rng() * 3.5;
+    sinceStation++;
+    const isStation = sinceStation >= 3 && rng() > 0.55;
+    if (isStation) {
+      sinceStation = 0;
+      stations.push({
+        name: pick(rng, STATION_NAMES),
+        kind: 'station',
+        km: Math.round(km * 10) / 10,
+        dwellSeconds: 60 + Math.floor(rng() * 30),
+      });
+    } else {
+      stations.push({
+        name: `O.P. ${Math.floor(km)} KM`,
+        kind: 'platform',
+        km: Math.round(km * 10) / 10,
+        dwellSeconds: 20 + Math.floor(rng() * 15),
+      });
+    }
+  }
+
+  return { startKm, stations };
+};
+
+// Converts real seconds of running into hours on the simulated clock
+export const realSecondsToSimHours = (seconds: number) => (seconds * TIME_SCALE) / 3600;
+
+// Scheduled arrival (absolute simulated hours) for every station on the route
+export const buildTimetable = (route: Route, departureHours: number): number[] => {
+  const arrivals: number[] = [];
+  let clock = departureHours;
+  let prevKm = route.startKm;
+  route.stations.forEach(station => {
+    const runSeconds = ((station.km - prevKm) / SCHEDULE_SPEED_KMH) * 3600;
+    clock += realSecondsToSimHours(runSeconds);
+    arrivals.push(clock);
+    clock += realSecondsToSimHours(station.dwellSeconds);
+    prevKm = station.km;
+  });
+  return arrivals;
+};
+
+export type TrainState = 'running' | 'braking' | 'dwell';
+
+// Snapshot the 3D view reports back to the HUD a few times per second
+export interface RouteProgress {
+  nextStationIndex: number;
+  distanceKm: number;   // to the next stopping point
+  speedKmh: number;
+  state: TrainState;
+  etaSeconds: number;   // real seconds until arrival at the current pace
+  arrivedIndex: number; // last station the train stopped at, -1 before the first
+  lineKm: number;       // position in line kilometres
+  tripKm: number;       // distance run since departure
+}
@@ -0,0 +1,23 @@
+// Shadow quality tiers. The sun's shadow map is fitted to the stretch of line
+// in front of the camera rather than the whole streamed world; higher tiers cover
+// more of it at a finer resolution, and the top tier also lets the nearest
+// street lamps cast shadows after dark.
+
+export type ShadowQuality = 'off' | 'low' | 'medium' | 'high';
+
+export interface ShadowTier {
+  label: string;
+  mapSize: number;      // sun shadow map, texels per side (0 = no shadows)
+  extent: number;       // metres covered either side of the fitted centre
+  lampShadows: number;  // nearest street lamps casting at night
+  lampMapSize: number;
+}
+
+export const SHADOW_QUALITIES: ShadowQuality[] = ['off', 'low', 'medium', 'high'];
+
+export const SHADOW_TIERS: Record<ShadowQuality, ShadowTier> = {
+  off:    { label: 'VYKL', mapSize: 0, extent: 0, lampShadows: 0, lampMapSize: 0 },
+  low:    { label: 'NIZK', mapSize: 512, extent: 25, lampShadows: 0, lampMapSize: 0 },
+  medium: { label: 'SRED', mapSize: 1024, extent: 40, lampShadows: 0, lampMapSize: 0 },
+  high:   { label: 'VYS', mapSize: 2048, extent: 55, lampShadows: 2, lampMapSize: 256 },
+};
@@ -0,0 +1,109 @@
+import { createRng } from './random';
+import { Route } from './route';
+
+// Automatic block signalling. The line is cut into fixed block sections, each
+// guarded by a signal at its start; a section holding a train shows red, the
+// signal before it yellow. The only other train on our track is a stopping
+// train running ahead of us, which now and then terminates at a station and
+// gives way to the next one further down the line. Entry signals of some
+// stations route us onto a side track and show two yellows.
+
+export type SignalAspect = 'green' | 'yellow' | 'twoYellow' | 'red';
+
+export const BLOCK_LENGTH = 1600;
+
+// Speed allowed past each aspect until the next signal (km/h). A red is only
+// ever passed after stopping at it, and then at caution speed
+export const ASPECT_SPEED: Record<SignalAspect, number> = {
+  green: Infinity,
+  yellow: 60,
+  twoYellow: 50,
+  red: 20,
+};
+
+// Route metres (from route.startKm) of signal i, which guards block i
+export const signalPosition = (index: number) => (index + 0.5) * BLOCK_LENGTH;
+export const blockAt = (s: number) => Math.floor(s / BLOCK_LENGTH - 0.5);
+
+const LEADER_LENGTH = 200;
+const DIVERGING_CHANCE = 0.4;
+const TERMINATE_CHANCE = 0.35;
+
+export interface BlockSystem {
+  update: (dt: number) => void;
+  aspectAt: (index: number) => SignalAspect;
+  isEntrySignal: (index: number) => boolean; // carries the lower yellow lens
+}
+
+export const createBlockSystem = (seed: string, route: Route): BlockSystem => {
+  const rng = createRng(`${seed}:signals`);
+  const stopS = route.stations.map(st => (st.km - route.startKm) * 1000);
+
+  // Entry signals: the last signal before each big station
+  const entrySignals = new Set<number>();
+  const diverging = new Set<number>();
+  route.stations.forEach((st, i) => {
+    if (st.kind !== 'station') return;
+    const index = blockAt(stopS[i]);
+    entrySignals.add(index);
+    if (rng() < DIVERGING_CHANCE) diverging.add(index);
+  });
+
+  // The train ahead stops everywhere, a little slower than our timetable. Once
+  // past its last stop (or started beyond the last one) it has left the line
+  // and holds no block
+  let leaderS = 0;
+  let leaderSpeed = 0;
+  let leaderStop = 0;
+  let dwell = 0;
+  const startLeader = (fromS: number) => {
+    leaderS = fromS + 3000 + rng() * 4000;
+    leaderSpeed = (50 + rng() * 20) / 3.6;
+    leaderStop = stopS.findIndex(s => s > leaderS);
+    dwell = 0;
+  };
+  startLeader(0);
+  const leaderOnLine = () => leaderStop >= 0 && leaderStop < stopS.length;
+
+  const update = (dt: number) => {
+    if (!leaderOnLine()) return;
+    if (dwell > 0) {
+      dwell -= dt;
+      if (dwell > 0) return;
+      // Some trains end their run here and clear off into the sidings
+      if (route.stations[leaderStop].kind === 'station' && rng() < TERMINATE_CHANCE) {
+        startLeader(leaderS);
+        return;
+      }
+      leaderStop++;
+      return;
+    }
+    const toStop = stopS[leaderStop] - leaderS;
+    leaderS += Math.min(toStop, leaderSpeed * dt);
+    if (toStop <= leaderSpeed * dt) dwell = route.stations[leaderStop].dwellSeconds;
+  };
+
+  const occupied = (index: number) =>
+    leaderOnLine() && index >= blockAt(leaderS - LEADER_LENGTH) && index <= blockAt(leaderS);
+
+  const aspectAt = (index: number): SignalAspect => {
+    if (occupied(index)) return 'red';
+    if (diverging.has(index)) return 'twoYellow';
+    return occupied(index + 1) ? 'yellow' : 'green';
+  };
+
+  return { update, aspectAt, isEntrySignal: (index: number) => entrySignals.has(index) };
+};
+
+// ALSN cab signal, repeating the signal ahead: two yellows are coded as plain
+// yellow, a red ahead as yellow-over-red, and red itself is only shown after
+// passing a signal at red. Listed from least to most restrictive.
+export type CabSignal = 'green' | 'yellow' | 'yellowRed' | 'red';
+
+export const CAB_SIGNALS: CabSignal[] = ['green', 'yellow', 'yellowRed', 'red'];
+
+export const getCabSignal = (ahead: SignalAspect, passedRed: boolean): CabSignal => {
+  if (passedRed) return 'red';
+  if (ahead === 'red') return 'yellowRed';
+  return ahead === 'green' ? 'green' : 'yellow';
+};
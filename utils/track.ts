@@ -0,0 +1,232 @@
+import { createRng } from './random';
+import { Route } from './route';
+
+// Track geometry as a function of route distance s (metres from route start).
+// The alignment is built from seeded tangent / curve and grade segments joined
+// by linear ramps (a cheap stand-in for clothoid transitions), then integrated
+// into a lookup table that grows as the train runs.
+
+const STEP = 5;                   // metres between table samples
+const CURVE_TRANSITION = 60;      // curvature ramp length
+const GRADE_TRANSITION = 150;     // vertical curve length
+const STATION_TANGENT = 250;      // straight, level track either side of a stop
+const DESIGN_SPEED = 100 / 3.6;   // m/s the cant is designed for
+const CANT_FACTOR = 0.6;          // fraction of equilibrium cant actually applied
+const MAX_CANT = 0.1;             // rad, ~150 mm on 1520 mm gauge
+const ALLOWED_LATERAL = 0.7;      // m/s^2 unbalanced lateral acceleration
+const GRAVITY = 9.81;
+const STRUCTURE_START = 600;      // first possible structure
+const STRUCTURE_CLEARANCE = 250;  // extra room between structures and platforms
+const BRIDGE_PANEL = 12;          // truss panel length
+
+export interface TrackSample {
+  x: number;
+  y: number;
+  z: number;
+  heading: number;    // yaw, 0 = heading down -Z
+  curvature: number;  // 1/R, positive = curving left
+  grade: number;      // rise over run, positive = climbing
+  cant: number;       // rad, positive = right rail raised
+}
+
+export type StructureKind = 'tunnel' | 'bridge' | 'overpass' | 'crossing';
+
+export interface TrackStructure {
+  kind: StructureKind;
+  start: number;
+  end: number;
+  height: number; // hill above a tunnel, valley depth under a bridge, clearance of an overpass (0 at a crossing)
+}
+
+export interface TrackProfile {
+  sample: (s: number, out?: TrackSample) => TrackSample;
+  curveSpeedLimit: (s: number) => number; // km/h, Infinity on tangent track
+  structureAt: (s: number, margin?: number) => TrackStructure | null;
+  nextStructure: (s: number) => TrackStructure; // first structure starting at or after s
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  value: number;
+}
+
+const createSample = (): TrackSample => ({ x: 0, y: 0, z: 0, heading: 0, curvature: 0, grade: 0, cant: 0 });
+
+export const getCant = (curvature: number) => {
+  const cant = Math.atan((CANT_FACTOR * DESIGN_SPEED * DESIGN_SPEED * curvature) / GRAVITY);
+  return Math.max(-MAX_CANT, Math.min(MAX_CANT, cant));
+};
+
+export const createTrackProfile = (seed: string, route: Route): TrackProfile => {
+  const rng = createRng(`${seed}:track`);
+  const stops = route.stations.map(st => (st.km - route.startKm) * 1000);
+
+  const nearStop = (start: number, end: number) =>
+    stops.some(p => p > start - STATION_TANGENT && p < end + STATION_TANGENT);
+
+  // --- Segment planning ---
+  const curves: Segment[] = [];
+  const grades: Segment[] = [];
+
+  const planCurves = (until: number) => {
+    let cursor = curves.length ? curves[curves.length - 1].end : 0;
+    while (cursor < until) {
+      // Tangent
+      const tangent = 200 + rng() * 600;
+      curves.push({ start: cursor, end: cursor + tangent, value: 0 });
+      cursor += tangent;
+      // Curve
+      const length = 150 + rng() * 450;
+      const radius = 250 + rng() * 650;
+      const sign = rng() > 0.5 ? 1 : -1;
+      const value = nearStop(cursor, cursor + length) ? 0 : sign / radius;
+      curves.push({ start: cursor, end: cursor + length, value });
+      cursor += length;
+    }
+  };
+
+  const planGrades = (until: number) => {
+    let cursor = grades.length ? grades[grades.length - 1].end : 0;
+    while (cursor < until) {
+      const length = 300 + rng() * 900;
+      const roll = rng();
+      let value = roll < 0.4 ? 0 : (rng() - 0.5) * 0.024; // up to +-12 per mille
+      if (nearStop(cursor, cursor + length)) value = 0;
+      grades.push({ start: cursor, end: cursor + length, value });
+      cursor += length;
+    }
+  };
+
+  // Structures draw from their own stream so the alignment does not depend on them
+  const structureRng = createRng(`${seed}:structures`);
+  const structures: TrackStructure[] = [];
+  let structureCursor = STRUCTURE_START;
+
+  const planStructures = (until: number) => {
+    while (structureCursor < until) {
+      structureCursor += 600 + structureRng() * 1800;
+      const roll = structureRng();
+      const kind: StructureKind = roll < 0.3 ? 'overpass' : roll < 0.6 ? 'crossing' : roll < 0.85 ? 'bridge' : 'tunnel';
+      let length: number;
+      let height: number;
+      if (kind === 'tunnel') {
+        length = 150 + structureRng() * 300;
+        height = 12 + structureRng() * 10;
+      } else if (kind === 'bridge') {
+        length = BRIDGE_PANEL * (4 + Math.floor(structureRng() * 10));
+        height = 6 + structureRng() * 8;
+      } else if (kind === 'overpass') {
+        length = 14;
+        height = 7;
+      } else {
+        // Level crossing: the width of the road
+        length = 8;
+        height = 0;
+      }
+      if (nearStop(structureCursor - STRUCTURE_CLEARANCE, structureCursor + length + STRUCTURE_CLEARANCE)) continue;
+      structures.push({ kind, start: structureCursor, end: structureCursor + length, height });
+      structureCursor += length;
+    }
+  };
+
+  // Index of the last structure starting at or before s, or -1
+  const findStructure = (s: number) => {
+    planStructures(s + 5000);
+    let lo = -1;
+    let hi = structures.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (structures[mid].start <= s) lo = mid; else hi = mid - 1;
+    }
+    return lo;
+  };
+
+  const structureAt = (s: number, margin = 0) => {
+    const i = findStructure(s + margin);
+    if (i < 0) return null;
+    const st = structures[i];
+    return s - margin <= st.end ? st : null;
+  };
+
+  const nextStructure = (s: number) => {
+    const i = findStructure(s);
+    if (i >= 0 && structures[i].start === s) return structures[i];
+    // Platform clearances can leave a long gap, so plan until one turns up
+    while (i + 1 >= structures.length) planStructures(structureCursor + 5000);
+    return structures[i + 1];
+  };
+
+  // Value of a segment list at s, ramping in from the previous segment
+  const segmentValue = (list: Segment[], s: number, transition: number) => {
+    let lo = 0;
+    let hi = list.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (list[mid].start <= s) lo = mid; else hi = mid - 1;
+    }
+    const seg = list[lo];
+    const prev = lo > 0 ? list[lo - 1].value : 0;
+    const ramp = Math.min(1, (s - seg.start) / transition);
+    return prev + (seg.value - prev) * ramp;
+  };
+
+  // --- Integrated lookup table ---
+  const xs: number[] = [0];
+  const ys: number[] = [0];
+  const zs: number[] = [0];
+  const headings: number[] = [0];
+  const curvatures: number[] = [0];
+  const gradients: number[] = [0];
+
+  const ensure = (s: number) => {
+    const needed = Math.ceil(s / STEP) + 2;
+    if (xs.length > needed) return;
+    planCurves(needed * STEP + 2000);
+    planGrades(needed * STEP + 2000);
+    while (xs.length <= needed) {
+      const i = xs.length;
+      const sMid = (i - 0.5) * STEP;
+      const k = segmentValue(curves, sMid, CURVE_TRANSITION);
+      const g = segmentValue(grades, sMid, GRADE_TRANSITION);
+      const headingMid = headings[i - 1] + k * STEP * 0.5;
+      xs.push(xs[i - 1] - Math.sin(headingMid) * STEP);
+      zs.push(zs[i - 1] - Math.cos(headingMid) * STEP);
+      ys.push(ys[i - 1] + g * STEP);
+      headings.push(headings[i - 1] + k * STEP);
+      curvatures.push(segmentValue(curves, i * STEP, CURVE_TRANSITION));
+      gradients.push(segmentValue(grades, i * STEP, GRADE_TRANSITION));
+    }
+  };
+
+  const sample = (s: number, out: TrackSample = createSample()) => {
+    if (s < 0) {
+      // Behind the start the line simply runs straight back
+      out.x = 0; out.y = 0; out.z = -s;
+      out.heading = 0; out.curvature = 0; out.grade = 0; out.cant = 0;
+      return out;
+    }
+    ensure(s);
+    const i = Math.floor(s / STEP);
+    const f = s / STEP - i;
+    const lerp = (arr: number[]) => arr[i] + (arr[i + 1] - arr[i]) * f;
+    out.x = lerp(xs);
+    out.y = lerp(ys);
+    out.z = lerp(zs);
+    out.heading = lerp(headings);
+    out.curvature = lerp(curvatures);
+    out.grade = lerp(gradients);
+    out.cant = getCant(out.curvature);
+    return out;
+  };
+
+  const scratch = createSample();
+  const curveSpeedLimit = (s: number) => {
+    const k = Math.abs(sample(s, scratch).curvature);
+    if (k < 1e-4) return Infinity;
+    const v = Math.sqrt((ALLOWED_LATERAL + GRAVITY * Math.tan(Math.abs(getCant(k)))) / k) * 3.6;
+    return Math.floor(v / 5) * 5;
+  };
+
+  return { sample, curveSpeedLimit, structureAt, nextStructure };
+};
@@ -0,0 +1,185 @@
+import { Weather } from '../App';
+
+// Longitudinal dynamics of our four-car elektrichka: two motor cars and two
+// trailers. Forces are in newtons and speeds in m/s. Each step balances
+// tractive effort against Davis resistance, gravity on the grade and the brake
+// shoes, with both traction and braking limited by adhesion at the rail. The
+// air side (compressor, main reservoir, brake pipe) and the current drawn from
+// the overhead wire are stepped alongside for the cab instruments.
+
+const G = 9.81;
+const TRAIN_MASS = 220000;          // kg, loaded
+const ROTATING_MASS_FACTOR = 1.08;  // wheelsets and armatures add apparent mass
+const ADHESIVE_MASS = 110000;       // kg on the motored axles
+
+const MAX_TRACTIVE_EFFORT = 150000;
+const MAX_POWER = 1600000;          // W at the rail, full field
+const MIN_LINE_VOLTAGE = 2000;      // below this the line contactors drop out
+
+// Resistor starting holds the motor current roughly in step with the effort;
+// above that it is the power drawn over the line voltage
+const STARTING_CURRENT = 560;       // A at full effort
+const EFFICIENCY = 0.88;
+const AUXILIARY_POWER = 40000;      // W: lighting, heating, motor-generators
+const COMPRESSOR_POWER = 25000;
+
+// Davis resistance R = A + Bv + Cv^2
+const DAVIS_A = 2600;
+const DAVIS_B = 45;
+const DAVIS_C = 6.5;
+
+// Brake cylinder pressure in atm (kgf/cm^2), and how fast it moves
+export const MAX_CYLINDER_PRESSURE = 4.0;
+const FULL_SERVICE_PRESSURE = 3.8;
+const SERVICE_FILL_RATE = 1.0;
+const EMERGENCY_FILL_RATE = 2.0;
+const RELEASE_RATE = 0.8;
+// Shoe force per atm of cylinder pressure, summed over the train
+const SHOE_FORCE_PER_ATM = 66000;
+
+// Brake pipe: charged to 5 atm, reduced by 1.5 for full service, vented for
+// emergency, and recharged from the main reservoir. The compressor keeps the
+// reservoir between its cut-in and cut-out pressures
+export const BRAKE_PIPE_CHARGED = 5.0;
+const FULL_SERVICE_REDUCTION = 1.5;
+const PIPE_SERVICE_RATE = 0.4;
+const PIPE_EMERGENCY_RATE = 3.0;
+const PIPE_CHARGE_RATE = 0.5;
+const RESERVOIR_DRAW = 0.6;         // reservoir drop per atm put into the pipe
+const CYLINDER_DRAW = 0.15;         // and per atm put into the brake cylinders
+const COMPRESSOR_CUT_IN = 7.5;
+const COMPRESSOR_CUT_OUT = 9.0;
+const COMPRESSOR_RATE = 0.06;
+const RESERVOIR_LEAK = 0.003;
+
+// Share of dry-rail adhesion left by the weather
+export const RAIL_ADHESION: Record<Weather, number> = {
+  clear: 1,
+  cloudy: 1,
+  fog: 0.8,
+  rain: 0.65,
+  thunderstorm: 0.6,
+  sleet: 0.45,
+  snow: 0.55,
+  blizzard: 0.5,
+};
+
+export interface DynamicsState {
+  speed: number;          // m/s, never negative
+  cylinder: number;       // brake cylinder pressure, atm
+  tractiveForce: number;  // delivered at the rail, after any slip
+  brakeForce: number;
+  slipping: boolean;      // driving wheels spinning
+  sliding: boolean;       // braked wheels skidding
+  brakePipe: number;      // atm
+  mainReservoir: number;  // atm
+  compressorOn: boolean;
+  lineCurrent: number;    // A drawn from the overhead wire
+}
+
+export interface DynamicsInput {
+  traction: number;       // 0..1 of the available tractive effort
+  brake: number;          // 0..1 of full service cylinder pressure
+  emergency: boolean;     // emergency application: full pressure at the fast rate
+  grade: number;          // rise over run, positive uphill
+  adhesion: number;       // rail condition, 1 = dry
+  voltage: number;        // at the pantograph; nothing runs on a dead section
+}
+
+export const createDynamicsState = (speedKmh: number): DynamicsState => ({
+  speed: speedKmh / 3.6,
+  cylinder: 0,
+  tractiveForce: 0,
+  brakeForce: 0,
+  slipping: false,
+  sliding: false,
+  brakePipe: BRAKE_PIPE_CHARGED,
+  mainReservoir: 8.5,
+  compressorOn: false,
+  lineCurrent: 0,
+});
+
+// Curtius-Kniffler adhesion coefficient on dry rail
+const adhesionAt = (speed: number) => 0.161 + 7.5 / (speed * 3.6 + 44);
+
+// Composite brake shoes lose grip as speed rises; 1 at a stand
+const shoeFriction = (speed: number) => {
+  const kmh = speed * 3.6;
+  return (kmh + 150) / (2 * kmh + 150);
+};
+
+export const stepDynamics = (state: DynamicsState, input: DynamicsInput, dt: number) => {
+  const v = state.speed;
+
+  const powered = input.voltage > MIN_LINE_VOLTAGE;
+
+  const targetPressure = input.emergency ? MAX_CYLINDER_PRESSURE : input.brake * FULL_SERVICE_PRESSURE;
+  if (targetPressure > state.cylinder) {
+    const rate = input.emergency ? EMERGENCY_FILL_RATE : SERVICE_FILL_RATE;
+    const fill = Math.min(targetPressure - state.cylinder, rate * dt);
+    state.cylinder += fill;
+    state.mainReservoir -= fill * CYLINDER_DRAW;
+  } else {
+    state.cylinder = Math.max(targetPressure, state.cylinder - RELEASE_RATE * dt);
+  }
+
+  const pipeTarget = input.emergency ? 0 : BRAKE_PIPE_CHARGED - input.brake * FULL_SERVICE_REDUCTION;
+  if (pipeTarget < state.brakePipe) {
+    const rate = input.emergency ? PIPE_EMERGENCY_RATE : PIPE_SERVICE_RATE;
+    state.brakePipe = Math.max(pipeTarget, state.brakePipe - rate * dt);
+  } else if (state.mainReservoir > state.brakePipe) {
+    const charge = Math.min(pipeTarget - state.brakePipe, PIPE_CHARGE_RATE * dt, state.mainReservoir - state.brakePipe);
+    state.brakePipe += charge;
+    state.mainReservoir -= charge * RESERVOIR_DRAW;
+  }
+
+  if (!powered || state.mainReservoir >= COMPRESSOR_CUT_OUT) state.compressorOn = false;
+  else if (state.mainReservoir < COMPRESSOR_CUT_IN) state.compressorOn = true;
+  state.mainReservoir += ((state.compressorOn ? COMPRESSOR_RATE : 0) - RESERVOIR_LEAK) * dt;
+
+  // Past the adhesion limit the wheels spin (or lock) and grip falls further
+  const mu = adhesionAt(v) * input.adhesion;
+  const tractionDemand = powered ? input.traction * Math.min(MAX_TRACTIVE_EFFORT, MAX_POWER / Math.max(v, 1)) : 0;
+  const tractionLimit = mu * ADHESIVE_MASS * G;
+  state.slipping = tractionDemand > tractionLimit;
+  state.tractiveForce = state.slipping ? tractionLimit * 0.7 : tractionDemand;
+  if (powered) {
+    const motorCurrent = Math.max(
+      (state.tractiveForce * v) / (EFFICIENCY * input.voltage),
+      (state.tractiveForce / MAX_TRACTIVE_EFFORT) * STARTING_CURRENT
+    );
+    state.lineCurrent = motorCurrent + (AUXILIARY_POWER + (state.compressorOn ? COMPRESSOR_POWER : 0)) / input.voltage;
+  } else {
+    state.lineCurrent = 0;
+  }
+
+  const brakeDemand = state.cylinder * SHOE_FORCE_PER_ATM * shoeFriction(v);
+  const brakeLimit = mu * TRAIN_MASS * G;
+  state.sliding = v > 0.1 && brakeDemand > brakeLimit;
+  state.brakeForce = state.sliding ? brakeLimit * 0.7 : brakeDemand;
+
+  const gradeForce = TRAIN_MASS * G * input.grade / Math.sqrt(1 + input.grade * input.grade);
+  let net: number;
+  if (v <= 0) {
+    // At a stand the brakes and journal friction hold until the drive beats them
+    const drive = state.tractiveForce - gradeForce;
+    if (drive <= state.brakeForce + DAVIS_A) {
+      state.speed = 0;
+      return;
+    }
+    net = drive - state.brakeForce - DAVIS_A;
+  } else {
+    net = state.tractiveForce - gradeForce - state.brakeForce - (DAVIS_A + DAVIS_B * v + DAVIS_C * v * v);
+  }
+  state.speed = Math.max(0, v + (net / (TRAIN_MASS * ROTATING_MASS_FACTOR)) * dt);
+};
+
+// The automatic driver: notches up below the target, brakes above it and
+// coasts in between; a stand is held on the brakes
+export const getAutoControls = (targetKmh: number, speedKmh: number) => {
+  const error = targetKmh - speedKmh;
+  if (targetKmh < 0.5) return { traction: 0, brake: 1 };
+  if (error > 1) return { traction: Math.min(1, Math.max(0.2, error / 8)), brake: 0 };
+  if (error < -1) return { traction: 0, brake: Math.min(1, 0.2 + (-error - 1) * 0.15) };
+  return { traction: 0, brake: 0 };
+};
@@ -0,0 +1,27 @@
+// Trip data that outlives a page load: the odometer of each journey, kept per
+// seed so a shared link carries on from its own reading. Storage can be
+// missing or full (private windows); the run then simply starts from zero.
+
+export interface TripLog {
+  odometerKm: number;  // distance run on this seed over all sessions
+}
+
+const storageKey = (seed: string) => `szd:trip:${seed}`;
+
+export const loadTripLog = (seed: string): TripLog => {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(storageKey(seed)) || 'null');
+    if (saved && typeof saved.odometerKm === 'number') return { odometerKm: saved.odometerKm };
+  } catch {
+    // Unreadable entry: fall through to a fresh log
+  }
+  return { odometerKm: 0 };
+};
+
+export const saveTripLog = (seed: string, log: TripLog) => {
+  try {
+    window.localStorage.setItem(storageKey(seed), JSON.stringify(log));
+  } catch {
+    // Not persisted this time
+  }
+};
@@ -0,0 +1,113 @@
+import { Weather } from '../App';
+import { Rng, createRng } from './random';
+
+// Weather as a Markov chain over sim time. Each state lasts a minimum spell
+// plus a random tail, then moves to a neighbouring state - clear skies cloud
+// over before it rains, snow thickens into a blizzard and eases back - with
+// the odds tilted by season and hour of day. Every spell rolls from its own
+// seeded stream, so the same seed always brings the same weather in the same
+// order, however often a plan is recomputed.
+
+export type Season = 'ZIMA' | 'VESNA' | 'LETO' | 'OSEN';
+
+export interface WeatherPlan {
+  current: Weather;
+  until: number;  // sim hours when the current spell ends
+  next: Weather;  // what follows it (the forecast)
+  spell: number;  // count of spells since the trip began; keys the rolls
+}
+
+// Relative odds of each neighbouring state
+const TRANSITIONS: Record<Weather, Partial<Record<Weather, number>>> = {
+  clear:        { cloudy: 3, fog: 1 },
+  cloudy:       { clear: 3, rain: 2, snow: 1.5, fog: 0.7, sleet: 0.6 },
+  fog:          { clear: 1.5, cloudy: 2 },
+  rain:         { cloudy: 3, thunderstorm: 1, sleet: 0.5 },
+  thunderstorm: { rain: 1 },
+  sleet:        { rain: 1, snow: 1, cloudy: 1 },
+  snow:         { cloudy: 2, blizzard: 1, sleet: 0.5 },
+  blizzard:     { snow: 1 },
+};
+
+// Minimum spell and mean of the random tail, in sim hours
+const DURATIONS: Record<Weather, [number, number]> = {
+  clear:        [3, 4],
+  cloudy:       [1.5, 2],
+  fog:          [1, 1.5],
+  rain:         [1, 1.5],
+  thunderstorm: [0.5, 0.75],
+  sleet:        [0.75, 1],
+  snow:         [2, 2],
+  blizzard:     [0.75, 1],
+};
+
+const SEASON_BIAS: Record<Season, Partial<Record<Weather, number>>> = {
+  ZIMA:  { rain: 0.15, thunderstorm: 0, sleet: 1.2, snow: 3, blizzard: 2, fog: 0.7 },
+  VESNA: { snow: 0.4, blizzard: 0.2, sleet: 1.2, fog: 1.3, thunderstorm: 0.5 },
+  LETO:  { clear: 1.3, rain: 1.2, thunderstorm: 2, sleet: 0, snow: 0, blizzard: 0 },
+  OSEN:  { clear: 0.8, rain: 1.5, fog: 1.6, thunderstorm: 0.3, snow: 0.5, blizzard: 0.2 },
+};
+
+export const getSeason = (dayOfYear: number): Season => {
+  const d = ((dayOfYear % 365) + 365) % 365;
+  if (d < 60 || d >= 335) return 'ZIMA';
+  if (d < 152) return 'VESNA';
+  if (d < 244) return 'LETO';
+  return 'OSEN';
+};
+
+const getWeight = (from: Weather, to: Weather, season: Season, hours: number) => {
+  let w = (TRANSITIONS[from][to] ?? 0) * (SEASON_BIAS[season][to] ?? 1);
+  const h = ((hours % 24) + 24) % 24;
+  // Fog settles overnight, storms build up in the afternoon heat
+  if (to === 'fog' && h >= 3 && h < 9) w *= 2;
+  if (to === 'thunderstorm' && h >= 13 && h < 19) w *= 1.5;
+  return w;
+};
+
+const pickNext = (rng: Rng, from: Weather, season: Season, hours: number): Weather => {
+  const options = (Object.keys(TRANSITIONS[from]) as Weather[])
+    .map(to => ({ to, w: getWeight(from, to, season, hours) }))
+    .filter(o => o.w > 0);
+  // A state the season rules out (e.g. a blizzard in summer) drifts back via cloud
+  if (!options.length) return 'cloudy';
+  const total = options.reduce((sum, o) => sum + o.w, 0);
+  let roll = rng() * total;
+  for (const o of options) {
+    roll -= o.w;
+    if (roll <= 0) return o.to;
+  }
+  return options[options.length - 1].to;
+};
+
+const drawDuration = (rng: Rng, weather: Weather) => {
+  const [min, mean] = DURATIONS[weather];
+  return min - mean * Math.log(1 - rng());
+};
+
+// Start spell number `spell`, of `weather`, at `hours` and decide what follows it
+export const planWeather = (seed: string, weather: Weather, hours: number, dayOfYear: number, spell: number): WeatherPlan => {
+  const rng = createRng(`${seed}:weather:${spell}`);
+  const until = hours + drawDuration(rng, weather);
+  return { current: weather, until, next: pickNext(rng, weather, getSeason(dayOfYear), until), spell };
+};
+
+// Opening weather for a trip: a typical state for the season
+export const getInitialWeather = (seed: string, dayOfYear: number): Weather => {
+  const rng = createRng(`${seed}:weather:start`);
+  const season = getSeason(dayOfYear);
+  if (season === 'ZIMA') return rng() < 0.5 ? 'snow' : 'cloudy';
+  if (season === 'LETO') return rng() < 0.7 ? 'clear' : 'cloudy';
+  return rng() < 0.5 ? 'cloudy' : (rng() < 0.5 ? 'clear' : 'fog');
+};
+
+// Walk the chain forward to `hours`, e.g. after the clock has been skipped ahead
+export const advanceWeather = (seed: string, plan: WeatherPlan, hours: number, dayOfYear: number): WeatherPlan => {
+  let next = plan;
+  let steps = 0;
+  while (hours >= next.until && steps < 50) {
+    next = planWeather(seed, next.next, next.until, dayOfYear, next.spell + 1);
+    steps++;
+  }
+  return next;
+};
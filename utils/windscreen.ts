@@ -0,0 +1,247 @@
+// Windscreen surface simulated on a coarse grid and uploaded as an RGBA texture:
+// R = water height (droplets and their trails), G = settled snow,
+// B = frost creeping in from the side frames, A = condensation (misting).
+// Coordinates are in metres on the glass, origin at its centre, +y up.
+
+export const GLASS_WIDTH = 2.0;
+export const GLASS_HEIGHT = 1.15;
+export const WIPER_PIVOT_Y = -0.475;  // below the glass centre
+const BLADE_INNER = 0.08;
+const BLADE_OUTER = 0.72;
+
+const MAX_DROPS = 350;
+const RUN_RADIUS = 1.6;               // texels; bigger drops start to run
+
+export interface WindscreenConditions {
+  rain: number;       // 0..1 how hard drops hit the glass
+  snow: number;       // 0..1 how many flakes arrive
+  speedKmh: number;
+  cold: number;       // 0..1 how cold the glass is from outside
+  humidity: number;   // 0..1 moisture in the air
+  warmth: number;     // 0..1 heat from the cab (lamps and heater)
+}
+
+export interface Windscreen {
+  width: number;
+  height: number;
+  data: Uint8Array;   // RGBA, row 0 at the bottom of the glass
+  update: (dt: number, conditions: WindscreenConditions) => void;
+  // Clear the sector swept by the blade between two arm angles (rad, 0 = upright)
+  wipe: (fromAngle: number, toAngle: number) => void;
+  // Rub a patch clear by hand; u, v are glass texture coordinates
+  rub: (u: number, v: number, radius?: number) => void;
+  isClear: () => boolean;
+}
+
+const smoothstep = (e0: number, e1: number, x: number) => {
+  const t = Math.max(0, Math.min(1, (x - e0) / (e1 - e0)));
+  return t * t * (3 - 2 * t);
+};
+
+// Three octaves of bilinear value noise in 0..1
+const createValueNoise = (width: number, height: number) => {
+  const out = new Float32Array(width * height);
+  let amplitude = 1;
+  let total = 0;
+  for (let cells = 8; cells <= 32; cells *= 2) {
+    const gw = cells + 1;
+    const gh = Math.ceil(cells * height / width) + 1;
+    const grid = Array.from({ length: gw * gh }, () => Math.random());
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const gx = (x / width) * cells;
+        const gy = (y / width) * cells;
+        const x0 = Math.floor(gx);
+        const y0 = Math.floor(gy);
+        const fx = gx - x0;
+        const fy = gy - y0;
+        const a = grid[y0 * gw + x0] + (grid[y0 * gw + x0 + 1] - grid[y0 * gw + x0]) * fx;
+        const b = grid[(y0 + 1) * gw + x0] + (grid[(y0 + 1) * gw + x0 + 1] - grid[(y0 + 1) * gw + x0]) * fx;
+        out[y * width + x] += (a + (b - a) * fy) * amplitude;
+      }
+    }
+    total += amplitude;
+    amplitude *= 0.5;
+  }
+  for (let i = 0; i < out.length; i++) out[i] /= total;
+  return out;
+};
+
+interface Drop {
+  x: number;
+  y: number;
+  r: number;
+  wobble: number;
+}
+
+export const createWindscreen = (width = 128, height = 74): Windscreen => {
+  const size = width * height;
+  const trail = new Float32Array(size);
+  const water = new Float32Array(size);
+  const snow = new Float32Array(size);
+  const frost = new Float32Array(size);
+  const mist = new Float32Array(size);
+  const data = new Uint8Array(size * 4);
+  const drops: Drop[] = [];
+
+  // Per-texel polar coordinates around the wiper pivot, and closeness to the frame
+  const pivotRadius = new Float32Array(size);
+  const pivotAngle = new Float32Array(size);
+  const edgeWeight = new Float32Array(size);
+  // Frost reaches a texel once the frost level passes its threshold: low at the
+  // side frames, high in the middle, broken up by noise into feathery fronts
+  const frostThreshold = new Float32Array(size);
+  const mistShape = new Float32Array(size);
+  const noise = createValueNoise(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const mx = ((x + 0.5) / width - 0.5) * GLASS_WIDTH;
+      const my = ((y + 0.5) / height - 0.5) * GLASS_HEIGHT - WIPER_PIVOT_Y;
+      pivotRadius[i] = Math.hypot(mx, my);
+      pivotAngle[i] = Math.atan2(-mx, my);
+      const edge = Math.min(x, width - 1 - x, y, height - 1 - y) / height;
+      edgeWeight[i] = Math.exp(-edge / 0.08);
+      const side = Math.min(x, width - 1 - x) / (width / 2);
+      frostThreshold[i] = 0.12 + side * 0.75 + (noise[i] - 0.5) * 0.4 - edgeWeight[i] * 0.1;
+      // Breath and cab air mist the lower glass first
+      mistShape[i] = 0.7 + 0.3 * (1 - y / height) + (noise[i] - 0.5) * 0.2;
+    }
+  }
+
+  let wetness = 0;
+  let frostLevel = 0;
+  let mistLevel = 0;
+
+  const stampDrop = (d: Drop) => {
+    const r = Math.ceil(d.r);
+    const cx = Math.round(d.x);
+    const cy = Math.round(d.y);
+    for (let y = cy - r; y <= cy + r; y++) {
+      if (y < 0 || y >= height) continue;
+      for (let x = cx - r; x <= cx + r; x++) {
+        if (x < 0 || x >= width) continue;
+        const dist2 = ((x - d.x) * (x - d.x) + (y - d.y) * (y - d.y)) / (d.r * d.r);
+        if (dist2 >= 1) continue;
+        const i = y * width + x;
+        water[i] = Math.max(water[i], 1 - dist2);
+      }
+    }
+  };
+
+  const update = (dt: number, c: WindscreenConditions) => {
+    // Trails and the thin film left by the blade evaporate
+    const dry = Math.exp(-dt * (c.rain > 0 ? 0.3 : 0.8));
+    for (let i = 0; i < size; i++) trail[i] *= dry;
+
+    // New drops: more of them the faster we drive into the rain
+    const arrivals = c.rain * dt * (40 + c.speedKmh * 0.6);
+    let count = Math.floor(arrivals) + (Math.random() < arrivals % 1 ? 1 : 0);
+    while (count-- > 0) {
+      drops.push({ x: Math.random() * width, y: Math.random() * height, r: 0.6 + Math.random() * 1.4, wobble: Math.random() * 10 });
+    }
+    if (drops.length > MAX_DROPS) drops.splice(0, drops.length - MAX_DROPS);
+
+    // Heavy drops run down; at speed the airflow pushes them up and outwards
+    const airflow = Math.max(0, c.speedKmh - 50) * 0.12;
+    for (let k = drops.length - 1; k >= 0; k--) {
+      const d = drops[k];
+      if (c.rain > 0 && Math.random() < dt * 0.05) d.r += 0.4; // merging with neighbours
+      if (d.r > RUN_RADIUS) {
+        const vy = -8 + airflow;
+        d.wobble += dt * 3;
+        d.x += (Math.sin(d.wobble) * 0.6 + Math.sign(d.x - width / 2) * airflow * 0.3) * dt;
+        d.y += vy * dt;
+        const i = Math.round(d.y) * width + Math.round(d.x);
+        if (i >= 0 && i < size) trail[i] = Math.max(trail[i], 0.45);
+      }
+      if (d.y < -2 || d.y > height + 2 || d.x < -2 || d.x > width + 2) drops.splice(k, 1);
+    }
+
+    water.set(trail);
+    drops.forEach(stampDrop);
+
+    // Flakes settle everywhere but pile up against the frame; a warm cab melts them
+    const snowGrowth = c.snow * dt * 0.08;
+    const melt = dt * (c.snow > 0 ? 0.002 : 0.03);
+    let flakes = Math.floor(c.snow * dt * 120);
+    while (flakes-- > 0) {
+      const i = Math.floor(Math.random() * size);
+      if (Math.random() < 0.15 + edgeWeight[i]) snow[i] = Math.min(1, snow[i] + 0.25);
+    }
+    // Frost and mist: cold glass and damp air against the heat of the cab. Frost
+    // never quite closes over the middle of the pane
+    frostLevel = Math.max(0, Math.min(0.95, frostLevel + dt * 0.04 * (c.cold - 0.55 - c.warmth * 0.25)));
+    mistLevel = Math.max(0, Math.min(1, mistLevel + dt * 0.05 * (c.humidity * 0.6 + c.cold * 0.4 - 0.5 - c.warmth * 0.3)));
+    // Rubbed or wiped patches grow back slowly rather than snapping to the level
+    const frostStep = dt * 0.02;
+    const mistStep = dt * 0.03;
+
+    wetness = 0;
+    for (let i = 0; i < size; i++) {
+      snow[i] = Math.max(0, Math.min(1, snow[i] + snowGrowth * edgeWeight[i] - melt));
+      const frostTarget = smoothstep(frostThreshold[i] - 0.08, frostThreshold[i], frostLevel);
+      frost[i] += Math.max(-frostStep * 3, Math.min(frostStep, frostTarget - frost[i]));
+      const mistTarget = Math.min(1, mistLevel * mistShape[i]);
+      mist[i] += Math.max(-mistStep * 3, Math.min(mistStep, mistTarget - mist[i]));
+      wetness = Math.max(wetness, water[i], snow[i], frost[i], mist[i]);
+      data[i * 4] = water[i] * 255;
+      data[i * 4 + 1] = snow[i] * 255;
+      data[i * 4 + 2] = frost[i] * 255;
+      data[i * 4 + 3] = mist[i] * 255;
+    }
+  };
+
+  const wipe = (fromAngle: number, toAngle: number) => {
+    const lo = Math.min(fromAngle, toAngle);
+    const hi = Math.max(fromAngle, toAngle);
+    if (hi - lo < 1e-4) return;
+    const inner = BLADE_INNER;
+    const outer = BLADE_OUTER;
+    for (let i = 0; i < size; i++) {
+      const r = pivotRadius[i];
+      const a = pivotAngle[i];
+      if (r < inner || r > outer || a < lo || a > hi) continue;
+      // The blade leaves a faint smeared film behind
+      trail[i] = Math.min(trail[i], 0.06 + Math.random() * 0.04);
+      water[i] = trail[i];
+      snow[i] = 0;
+      frost[i] = 0;
+      mist[i] = 0;
+      data[i * 4] = water[i] * 255;
+      data[i * 4 + 1] = 0;
+      data[i * 4 + 2] = 0;
+      data[i * 4 + 3] = 0;
+    }
+    for (let k = drops.length - 1; k >= 0; k--) {
+      const d = drops[k];
+      const mx = (d.x / width - 0.5) * GLASS_WIDTH;
+      const my = (d.y / height - 0.5) * GLASS_HEIGHT - WIPER_PIVOT_Y;
+      const r = Math.hypot(mx, my);
+      const a = Math.atan2(-mx, my);
+      if (r >= inner && r <= outer && a >= lo && a <= hi) drops.splice(k, 1);
+    }
+  };
+
+  const rub = (u: number, v: number, radius = 0.06) => {
+    const cx = u * width;
+    const cy = v * height;
+    const rx = (radius / GLASS_WIDTH) * width;
+    const ry = (radius / GLASS_HEIGHT) * height;
+    for (let y = Math.max(0, Math.floor(cy - ry)); y <= Math.min(height - 1, Math.ceil(cy + ry)); y++) {
+      for (let x = Math.max(0, Math.floor(cx - rx)); x <= Math.min(width - 1, Math.ceil(cx + rx)); x++) {
+        const d = ((x - cx) / rx) ** 2 + ((y - cy) / ry) ** 2;
+        if (d > 1) continue;
+        const i = y * width + x;
+        // A hand clears the mist; frost only partly gives way
+        const strength = 1 - d * d;
+        mist[i] *= 1 - strength;
+        frost[i] *= 1 - strength * 0.7;
+        data[i * 4 + 2] = frost[i] * 255;
+        data[i * 4 + 3] = mist[i] * 255;
+      }
+    }
+  };
+
+  return { width, height, data, update, wipe, rub, isClear: () => wetness < 0.02 };
+};